@@ -8,6 +8,7 @@ import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
  * @title EncryptedGaming
  * @dev A confidential gaming contract with encrypted game state
  * @notice This contract demonstrates FHE-based game mechanics with hidden information
+ * @custom:category gaming
  */
 contract EncryptedGaming is ZamaEthereumConfig {
 
@@ -8,6 +8,7 @@ import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
  * @title ConfidentialVoting
  * @dev Privacy-preserving governance voting with encrypted ballots
  * @notice This contract demonstrates FHE-based confidential voting mechanisms
+ * @custom:category governance
  */
 contract ConfidentialVoting is ZamaEthereumConfig {
 
@@ -8,6 +8,7 @@ import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
  * @title EncryptedIdentity
  * @dev A privacy-preserving identity management contract using FHE
  * @notice This contract demonstrates how to manage user identities with encrypted attributes
+ * @custom:category identity
  */
 contract EncryptedIdentity is ZamaEthereumConfig {
 
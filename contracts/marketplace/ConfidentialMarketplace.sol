@@ -8,6 +8,7 @@ import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
  * @title ConfidentialMarketplace
  * @dev A privacy-preserving marketplace with encrypted prices and transactions
  * @notice This contract demonstrates FHE-based confidential asset trading
+ * @custom:category commerce
  */
 contract ConfidentialMarketplace is ZamaEthereumConfig {
 
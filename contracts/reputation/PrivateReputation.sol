@@ -8,6 +8,7 @@ import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
  * @title PrivateReputation
  * @dev An encrypted reputation system maintaining user anonymity
  * @notice This contract demonstrates privacy-preserving reputation tracking
+ * @custom:category identity
  */
 contract PrivateReputation is ZamaEthereumConfig {
 
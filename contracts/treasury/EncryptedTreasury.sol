@@ -8,6 +8,7 @@ import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
  * @title EncryptedTreasury
  * @dev Confidential treasury management with encrypted balance tracking
  * @notice This contract demonstrates FHE-based treasury operations
+ * @custom:category commerce
  */
 contract EncryptedTreasury is ZamaEthereumConfig {
 
@@ -128,11 +129,13 @@ contract EncryptedTreasury is ZamaEthereumConfig {
 
         Fund storage fund = funds[_fundId];
 
+        // @exercise-begin Add the encrypted amount to the fund balance and to the treasury total (FHE.add)
         // Update encrypted balance
         fund.encryptedBalance = FHE.add(fund.encryptedBalance, amount);
 
         // Update total treasury
         encryptedTotalTreasury = FHE.add(encryptedTotalTreasury, amount);
+        // @exercise-end
 
         // Grant permissions
         FHE.allowThis(fund.encryptedBalance);
@@ -173,11 +176,13 @@ contract EncryptedTreasury is ZamaEthereumConfig {
 
         Fund storage fund = funds[_fundId];
 
+        // @exercise-begin Subtract the encrypted amount from the fund balance and from the treasury total (FHE.sub)
         // Update encrypted balance
         fund.encryptedBalance = FHE.sub(fund.encryptedBalance, amount);
 
         // Update total treasury
         encryptedTotalTreasury = FHE.sub(encryptedTotalTreasury, amount);
+        // @exercise-end
 
         // Grant permissions
         FHE.allowThis(fund.encryptedBalance);
@@ -1,379 +1,90 @@
 #!/usr/bin/env node
 
-import * as fs from "fs";
 import * as path from "path";
-
-/**
- * Category Configuration
- * Groups related examples into deployable projects
- */
-interface ContractConfig {
-  path: string;
-  testPath: string;
-}
-
-interface CategoryConfig {
-  name: string;
-  description: string;
-  contracts: Record<string, ContractConfig>;
-}
-
-const CATEGORIES: Record<string, CategoryConfig> = {
-  identity: {
-    name: "Identity & Privacy",
-    description: "Encrypted identity management and privacy systems",
-    contracts: {
-      "encrypted-identity": {
-        path: "contracts/identity/EncryptedIdentity.sol",
-        testPath: "test/identity/EncryptedIdentity.ts",
-      },
-      "private-reputation": {
-        path: "contracts/reputation/PrivateReputation.sol",
-        testPath: "test/reputation/PrivateReputation.ts",
-      },
-    },
-  },
-  commerce: {
-    name: "Confidential Commerce",
-    description: "Privacy-preserving marketplace and trading systems",
-    contracts: {
-      "confidential-marketplace": {
-        path: "contracts/marketplace/ConfidentialMarketplace.sol",
-        testPath: "test/marketplace/ConfidentialMarketplace.ts",
-      },
-      "encrypted-treasury": {
-        path: "contracts/treasury/EncryptedTreasury.sol",
-        testPath: "test/treasury/EncryptedTreasury.ts",
-      },
-    },
-  },
-  gaming: {
-    name: "Encrypted Gaming",
-    description: "Confidential gaming systems with hidden state",
-    contracts: {
-      "encrypted-gaming": {
-        path: "contracts/gaming/EncryptedGaming.sol",
-        testPath: "test/gaming/EncryptedGaming.ts",
-      },
-    },
-  },
-  governance: {
-    name: "Confidential Governance",
-    description: "Privacy-preserving voting and governance",
-    contracts: {
-      "confidential-voting": {
-        path: "contracts/governance/ConfidentialVoting.sol",
-        testPath: "test/governance/ConfidentialVoting.ts",
-      },
-    },
-  },
-};
-
-interface Colors {
-  reset: string;
-  green: string;
-  cyan: string;
-  yellow: string;
-  blue: string;
-  red: string;
-}
-
-const colors: Colors = {
-  reset: "\x1b[0m",
-  green: "\x1b[32m",
-  cyan: "\x1b[36m",
-  yellow: "\x1b[33m",
-  blue: "\x1b[34m",
-  red: "\x1b[31m",
-};
-
-function log(message: string, color: keyof Colors = "reset"): void {
-  console.log(`${colors[color]}${message}${colors.reset}`);
-}
-
-function copyDirectoryRecursive(src: string, dest: string): void {
-  if (!fs.existsSync(dest)) {
-    fs.mkdirSync(dest, { recursive: true });
-  }
-
-  const files = fs.readdirSync(src);
-  for (const file of files) {
-    if (
-      ["node_modules", "artifacts", "cache", ".git", "dist"].includes(file) ||
-      file.endsWith(".lock")
-    ) {
-      continue;
-    }
-
-    const srcPath = path.join(src, file);
-    const destPath = path.join(dest, file);
-
-    if (fs.statSync(srcPath).isDirectory()) {
-      copyDirectoryRecursive(srcPath, destPath);
-    } else {
-      fs.copyFileSync(srcPath, destPath);
-    }
-  }
-}
-
-function getContractName(filePath: string): string {
-  const content = fs.readFileSync(filePath, "utf-8");
-  const match = content.match(/^\s*contract\s+(\w+)(?:\s+is\s+|\s*\{)/m);
-  return match ? match[1] : "ExampleContract";
-}
-
-function generateDeployScript(
-  outputDir: string,
-  contracts: Record<string, string>
-): void {
-  const deployDir = path.join(outputDir, "deploy");
-  const deployScript = path.join(deployDir, "deploy.ts");
-
-  const importStatements = Object.values(contracts)
-    .map((name) => `  ${name},`)
-    .join("\n");
-
-  const deployStatements = Object.entries(contracts)
-    .map(([, name]) => {
-      return `  const ${name[0].toLowerCase()}${name.slice(1)} = await ethers.getContractFactory("${name}");\n  const ${name[0].toLowerCase()}${name.slice(1)}Instance = await ${name[0].toLowerCase()}${name.slice(1)}.deploy();\n  await ${name[0].toLowerCase()}${name.slice(1)}Instance.waitForDeployment();\n  console.log("${name} deployed to:", await ${name[0].toLowerCase()}${name.slice(1)}Instance.getAddress());`;
-    })
-    .join("\n\n");
-
-  const deployContent = `import { ethers } from "hardhat";
-
-async function main() {
-  const [deployer] = await ethers.getSigners();
-
-  console.log("Deploying contracts with account:", deployer.address);
-
-${deployStatements}
-
-  console.log("All contracts deployed successfully!");
-}
-
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
-`;
-
-  fs.writeFileSync(deployScript, deployContent);
-}
-
-function generateReadme(
-  outputDir: string,
-  categoryName: string,
-  categoryDescription: string,
-  contractCount: number
-): void {
-  const readmeContent = `# FHEVM Category: ${categoryName}
-
-## Overview
-
-${categoryDescription}
-
-This project contains **${contractCount}** standalone FHEVM examples demonstrating privacy-preserving smart contracts using Fully Homomorphic Encryption (FHE) technology.
-
-## Structure
-
-\`\`\`
-.
-├── contracts/
-│   └── [Multiple FHE contracts]
-├── test/
-│   └── [Test suites for each contract]
-├── deploy/
-│   └── deploy.ts                 # Deploy all contracts
-├── hardhat.config.ts             # Hardhat configuration
-├── tsconfig.json                 # TypeScript configuration
-└── package.json                  # Project dependencies
-\`\`\`
-
-## Setup
-
-### Prerequisites
-
-- Node.js >= 20
-- npm >= 7
-
-### Installation
-
-\`\`\`bash
-npm install
-\`\`\`
-
-## Usage
-
-### Compile All Contracts
-
-\`\`\`bash
-npm run compile
-\`\`\`
-
-### Run All Tests
-
-\`\`\`bash
-npm run test
-\`\`\`
-
-### Deploy All Contracts
-
-\`\`\`bash
-npm run deploy:localhost
-\`\`\`
-
-## Available Examples
-
-This category includes the following examples:
-
-- **Encrypted Identity** - Private user identity management
-- **Confidential Marketplace** - Privacy-preserving asset trading
-- **Encrypted Gaming** - Confidential game state
-- **Private Reputation** - Anonymous reputation systems
-- **Confidential Voting** - Secret ballot governance
-- **Encrypted Treasury** - Confidential balance management
-
-## Key Concepts
-
-### Fully Homomorphic Encryption
-
-FHE allows computations on encrypted data without decryption:
-
-\`\`\`solidity
-// Operations performed on encrypted data
-result = FHE.add(encryptedA, encryptedB);
-\`\`\`
-
-### Permission Management
-
-All encrypted values require explicit permissions:
-
-\`\`\`solidity
-FHE.allowThis(encryptedValue);
-FHE.allow(encryptedValue, userAddress);
-\`\`\`
-
-## License
-
-BSD-3-Clause-Clear
-
-## Support
-
-For questions, visit the [Zama Community Forum](https://www.zama.ai/community)
-`;
-
-  const readmePath = path.join(outputDir, "README.md");
-  fs.writeFileSync(readmePath, readmeContent);
-}
-
-function updatePackageJson(
-  outputDir: string,
-  categoryName: string,
-  categoryDescription: string
+import { parseArgs } from "util";
+import { loadRegistry, Registry } from "./lib/registry";
+import { log } from "./lib/log";
+import { generateProject, OutputOptions } from "./lib/project";
+import { VerifyOptions } from "./lib/verify";
+import { generateWorkspace, WorkspaceOptions } from "./lib/workspace";
+import { listTemplates } from "./lib/templates";
+import {
+  applyCliFlags,
+  getOutputOptions,
+  isInteractive,
+  loadProjectConfig,
+  ProjectConfig,
+  resolveProjectConfig,
+  resolveWorkspaceConfig,
+  runWizard,
+} from "./lib/wizard";
+
+function createCategory(
+  registry: Registry,
+  config: ProjectConfig,
+  output: OutputOptions,
+  verifyOptions?: VerifyOptions
 ): void {
-  const packageJsonPath = path.join(outputDir, "package.json");
-  let packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
-
-  packageJson.name = `fhevm-${categoryName.toLowerCase()}`;
-  packageJson.description = `FHEVM Category: ${categoryDescription}`;
-
-  fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
-}
-
-async function createCategory(categoryName: string, outputPath: string): Promise<void> {
-  if (!CATEGORIES[categoryName]) {
-    log(`Error: Unknown category "${categoryName}"`, "red");
+  if (config.category && !registry.categories[config.category]) {
+    log(`Error: Unknown category "${config.category}"`, "red");
     log("Available categories:", "cyan");
-    Object.keys(CATEGORIES).forEach((name) => {
+    Object.keys(registry.categories).forEach((name) => {
       log(`  - ${name}`, "blue");
     });
     process.exit(1);
   }
 
-  const category = CATEGORIES[categoryName];
-  const templateDir = path.join(__dirname, "..", "fhevm-hardhat-template");
+  const outputPath = path.resolve(config.output);
+  const title = config.category ? registry.categories[config.category].title : config.examples.join(", ");
 
   log(`\n${"=".repeat(60)}`, "cyan");
-  log(`Creating FHEVM Category: ${category.name}`, "cyan");
+  log(`Creating FHEVM Category: ${title}`, "cyan");
   log(`${"=".repeat(60)}\n`, "cyan");
 
-  // Step 1: Copy template
-  log("Step 1: Copying Hardhat template...", "blue");
-  if (fs.existsSync(outputPath)) {
-    fs.rmSync(outputPath, { recursive: true });
-  }
-  copyDirectoryRecursive(templateDir, outputPath);
-  log("✓ Template copied", "green");
-
-  // Step 2: Clear default template contracts and tests
-  log("Step 2: Clearing template contracts...", "blue");
-  const contractsDir = path.join(outputPath, "contracts");
-  const testDir = path.join(outputPath, "test");
+  const plan = generateProject(registry, config, outputPath, output, verifyOptions);
 
-  if (fs.existsSync(contractsDir)) {
-    fs.rmSync(contractsDir, { recursive: true });
-    fs.mkdirSync(contractsDir, { recursive: true });
-  }
-  if (fs.existsSync(testDir)) {
-    fs.rmSync(testDir, { recursive: true });
-    fs.mkdirSync(testDir, { recursive: true });
+  if (output.dryRun) {
+    return;
   }
-  log("✓ Template cleared", "green");
 
-  // Step 3: Copy category contracts
-  log("Step 3: Copying category contracts...", "blue");
-  const contractNameMap: Record<string, string> = {};
+  // Summary
+  log(`\n${"=".repeat(60)}`, "green");
+  log(verifyOptions ? "✓ Category project created and verified!" : "✓ Category project created successfully!", "green");
+  log(`${"=".repeat(60)}\n`, "green");
 
-  for (const [exampleName, config] of Object.entries(category.contracts)) {
-    const contractSrcPath = path.join(__dirname, "..", config.path);
-    const testSrcPath = path.join(__dirname, "..", config.testPath);
+  log(`Created ${Object.keys(plan.contracts).length} contracts in ${plan.name}`, "yellow");
+  log("\nNext steps:", "yellow");
+  log(`  1. cd ${outputPath}`, "yellow");
+  log(`  2. npm install`, "yellow");
+  log(`  3. npm run compile`, "yellow");
+  log(`  4. npm run test`, "yellow");
+  log("");
+}
 
-    const contractName = getContractName(contractSrcPath);
-    contractNameMap[exampleName] = contractName;
+function createWorkspace(
+  registry: Registry,
+  config: WorkspaceOptions & { output: string },
+  output: OutputOptions,
+  verifyOptions?: VerifyOptions
+): void {
+  const outputPath = path.resolve(config.output);
 
-    // Copy contract preserving directory structure
-    const contractDir = path.dirname(path.join(contractsDir, config.path.split("contracts/")[1]));
-    if (!fs.existsSync(contractDir)) {
-      fs.mkdirSync(contractDir, { recursive: true });
-    }
-    fs.copyFileSync(contractSrcPath, path.join(contractDir, `${contractName}.sol`));
+  log(`\n${"=".repeat(60)}`, "cyan");
+  log("Creating FHEVM Workspace: every example and category", "cyan");
+  log(`${"=".repeat(60)}\n`, "cyan");
 
-    // Copy test preserving directory structure
-    const testFileDir = path.dirname(path.join(testDir, config.testPath.split("test/")[1]));
-    if (!fs.existsSync(testFileDir)) {
-      fs.mkdirSync(testFileDir, { recursive: true });
-    }
-    fs.copyFileSync(testSrcPath, path.join(testFileDir, `${contractName}.ts`));
+  const plan = generateWorkspace(registry, config, outputPath, output, verifyOptions);
 
-    log(`  ✓ ${contractName}`, "green");
+  if (output.dryRun) {
+    return;
   }
 
-  // Step 4: Generate deploy script
-  log("Step 4: Generating deployment script...", "blue");
-  generateDeployScript(outputPath, contractNameMap);
-  log("✓ Deployment script generated", "green");
-
-  // Step 5: Update package.json
-  log("Step 5: Updating package.json...", "blue");
-  updatePackageJson(outputPath, categoryName, category.description);
-  log("✓ Package configuration updated", "green");
-
-  // Step 6: Generate README
-  log("Step 6: Generating README...", "blue");
-  generateReadme(
-    outputPath,
-    category.name,
-    category.description,
-    Object.keys(category.contracts).length
-  );
-  log("✓ README generated", "green");
-
   // Summary
   log(`\n${"=".repeat(60)}`, "green");
-  log("✓ Category project created successfully!", "green");
+  log(verifyOptions ? "✓ Workspace created and verified!" : "✓ Workspace created successfully!", "green");
   log(`${"=".repeat(60)}\n`, "green");
 
-  log(`Created ${Object.keys(category.contracts).length} contracts in ${categoryName}`, "yellow");
+  log(`Created ${plan.packages.length} packages in ${outputPath}`, "yellow");
   log("\nNext steps:", "yellow");
   log(`  1. cd ${outputPath}`, "yellow");
   log(`  2. npm install`, "yellow");
@@ -383,21 +94,136 @@ async function createCategory(categoryName: string, outputPath: string): Promise
 }
 
 // CLI Entry Point
-const args = process.argv.slice(2);
 
-if (args.length < 2 || args.includes("--help")) {
-  log("Usage: create-fhevm-category <category-name> <output-path>", "cyan");
+function parseCliArgs(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      help: { type: "boolean" },
+      all: { type: "boolean" },
+      verify: { type: "boolean" },
+      cache: { type: "string" },
+      registry: { type: "string" },
+      offline: { type: "boolean" },
+      yes: { type: "boolean", short: "y" },
+      config: { type: "string" },
+      network: { type: "string" },
+      template: { type: "string" },
+      "fhevm-version": { type: "string" },
+      exercise: { type: "boolean" },
+      solution: { type: "boolean" },
+      "skip-compile-check": { type: "boolean" },
+      frontend: { type: "boolean" },
+      ci: { type: "boolean" },
+      docs: { type: "boolean" },
+      force: { type: "boolean" },
+      merge: { type: "boolean" },
+      "dry-run": { type: "boolean" },
+    },
+  });
+}
+
+function printUsage(registry: Registry): void {
+  log("Usage: create-fhevm-category <category-name> <output-path> [options]", "cyan");
+  log("       create-fhevm-category --yes --config <file> [options]", "cyan");
+  log("       create-fhevm-category                    (interactive wizard)", "cyan");
+  log("       create-fhevm-category --all <output-path> [options]", "cyan");
+  log("\nOptions:", "cyan");
+  log("  --all                Generate every example and category as one npm workspace", "blue");
+  log("  --network <name>     Network targeted by npm run deploy (localhost, sepolia)", "blue");
+  log(`  --template <name>    Project template variant (${listTemplates().join(", ")})`, "blue");
+  log("  --fhevm-version <v>  @fhevm/solidity version to pin (checked against each example)", "blue");
+  log("  --exercise           Replace the contracts' exercise regions with TODO stubs", "blue");
+  log("  --solution           Generate the complete solution of an exercise", "blue");
+  log("  --skip-compile-check Do not install and compile a generated exercise", "blue");
+  log("  --frontend           Add a frontend starter app (frontend/)", "blue");
+  log("  --ci                 Add a GitHub Actions workflow", "blue");
+  log("  --docs               Add the examples' documentation pages", "blue");
+  log("  --config <file>      Read answers from a JSON config saved by the wizard", "blue");
+  log("  -y, --yes            Never prompt; use the arguments, --config and defaults", "blue");
+  log("  --force              Replace the contents of an existing output directory", "blue");
+  log("  --merge              Add to the FHEVM project in an existing output directory", "blue");
+  log("  --dry-run            Print the planned file operations and diffs; write nothing", "blue");
+  log("  --verify             Install, compile and test every example in the project", "blue");
+  log("  --cache <dir>        npm cache directory used by --verify and exercise compile checks", "blue");
+  log("  --registry <url>     npm registry or offline mirror used by --verify and exercise compile checks", "blue");
+  log("  --offline            Install only from the npm cache during --verify and exercise compile checks", "blue");
+  log("  --help               Show this help message", "blue");
   log("\nAvailable categories:", "cyan");
-  Object.entries(CATEGORIES).forEach(([name, config]) => {
+  Object.entries(registry.categories).forEach(([name, config]) => {
     log(`  ${name.padEnd(20)} - ${config.description}`, "blue");
   });
-  process.exit(args.includes("--help") ? 0 : 1);
 }
 
-const categoryName = args[0];
-const outputPath = path.resolve(args[1]);
+let registry: Registry;
+try {
+  registry = loadRegistry();
+} catch (error) {
+  log(`Error: ${(error as Error).message}`, "red");
+  process.exit(1);
+}
+
+registry.warnings.forEach((warning) => log(`Warning: ${warning}`, "yellow"));
+
+let cli: ReturnType<typeof parseCliArgs>;
+try {
+  cli = parseCliArgs(process.argv.slice(2));
+} catch (error) {
+  log(`Error: ${(error as Error).message}`, "red");
+  printUsage(registry);
+  process.exit(1);
+}
 
-createCategory(categoryName, outputPath).catch((error) => {
+if (cli.values.help) {
+  printUsage(registry);
+  process.exit(0);
+}
+
+async function main(): Promise<void> {
+  const output = getOutputOptions(cli.values);
+  const verifyOptions: VerifyOptions | undefined = cli.values.verify
+    ? { cache: cli.values.cache, registry: cli.values.registry, offline: cli.values.offline }
+    : undefined;
+
+  let config: Partial<ProjectConfig> = cli.values.config ? loadProjectConfig(cli.values.config) : {};
+  if (cli.values.all) {
+    if (cli.positionals.length > 1 || (!cli.values.config && cli.positionals.length === 0)) {
+      printUsage(registry);
+      process.exit(1);
+    }
+    if (cli.positionals.length === 1) {
+      config.output = cli.positionals[0];
+    }
+    createWorkspace(registry, resolveWorkspaceConfig(applyCliFlags(config, cli.values)), output, verifyOptions);
+    return;
+  }
+  if (cli.positionals.length > 0) {
+    config = { ...config, category: cli.positionals[0], examples: [] };
+  }
+  if (cli.positionals.length > 1) {
+    config.output = cli.positionals[1];
+  }
+  config = applyCliFlags(config, cli.values);
+
+  const useWizard = !cli.values.yes && !cli.values.config && cli.positionals.length === 0;
+  if (useWizard && isInteractive()) {
+    const defaults = { ...config, category: Object.keys(registry.categories)[0] };
+    const answers = await runWizard(registry, defaults, output.policy);
+    if (answers) {
+      createCategory(registry, answers.config, { ...output, policy: answers.policy }, verifyOptions);
+    }
+    return;
+  }
+  if (useWizard || (!cli.values.config && cli.positionals.length < 2)) {
+    printUsage(registry);
+    process.exit(1);
+  }
+
+  createCategory(registry, resolveProjectConfig(config), output, verifyOptions);
+}
+
+main().catch((error) => {
   log(`Error: ${error.message}`, "red");
   process.exit(1);
 });
@@ -1,339 +1,166 @@
 #!/usr/bin/env node
 
-import * as fs from "fs";
 import * as path from "path";
-import { execSync } from "child_process";
-
-/**
- * Example Configuration
- * Defines all available standalone examples
- */
-interface ExampleConfig {
-  contract: string;
-  test: string;
-  description: string;
-  testFixture?: string;
-}
+import { parseArgs } from "util";
+import { loadRegistry, Registry } from "./lib/registry";
+import { log } from "./lib/log";
+import { generateProject, OutputOptions } from "./lib/project";
+import { addExample } from "./lib/add";
+import { createNewExample, NewExampleOptions, parseEncryptedField } from "./lib/skeleton";
+import { countUpgradeOperations, upgradeProject } from "./lib/upgrade";
+import { VerifyOptions } from "./lib/verify";
+import { generateWorkspace, WorkspaceOptions } from "./lib/workspace";
+import { listTemplates } from "./lib/templates";
+import {
+  applyCliFlags,
+  getOutputOptions,
+  isInteractive,
+  loadProjectConfig,
+  ProjectConfig,
+  resolveProjectConfig,
+  resolveWorkspaceConfig,
+  runNewExampleWizard,
+  runWizard,
+} from "./lib/wizard";
+
+function createExample(
+  registry: Registry,
+  config: ProjectConfig,
+  output: OutputOptions,
+  verifyOptions?: VerifyOptions
+): void {
+  const outputPath = path.resolve(config.output);
+  const name = config.category ?? config.examples.join(", ");
 
-const EXAMPLES_MAP: Record<string, ExampleConfig> = {
-  "encrypted-identity": {
-    contract: "contracts/identity/EncryptedIdentity.sol",
-    test: "test/identity/EncryptedIdentity.ts",
-    description: "Private user identity management with encrypted personal data",
-  },
-  "confidential-marketplace": {
-    contract: "contracts/marketplace/ConfidentialMarketplace.sol",
-    test: "test/marketplace/ConfidentialMarketplace.ts",
-    description: "Privacy-preserving virtual asset marketplace with hidden prices",
-  },
-  "encrypted-gaming": {
-    contract: "contracts/gaming/EncryptedGaming.sol",
-    test: "test/gaming/EncryptedGaming.ts",
-    description: "Confidential gaming with encrypted game state",
-  },
-  "private-reputation": {
-    contract: "contracts/reputation/PrivateReputation.sol",
-    test: "test/reputation/PrivateReputation.ts",
-    description: "Encrypted reputation system maintaining user anonymity",
-  },
-  "confidential-voting": {
-    contract: "contracts/governance/ConfidentialVoting.sol",
-    test: "test/governance/ConfidentialVoting.ts",
-    description: "Privacy-preserving governance voting with encrypted ballots",
-  },
-  "encrypted-treasury": {
-    contract: "contracts/treasury/EncryptedTreasury.sol",
-    test: "test/treasury/EncryptedTreasury.ts",
-    description: "Confidential treasury management with encrypted balances",
-  },
-};
-
-interface Colors {
-  reset: string;
-  green: string;
-  cyan: string;
-  yellow: string;
-  blue: string;
-  red: string;
-}
+  log(`\n${"=".repeat(60)}`, "cyan");
+  log(`Creating FHEVM Example: ${name}`, "cyan");
+  log(`${"=".repeat(60)}\n`, "cyan");
 
-const colors: Colors = {
-  reset: "\x1b[0m",
-  green: "\x1b[32m",
-  cyan: "\x1b[36m",
-  yellow: "\x1b[33m",
-  blue: "\x1b[34m",
-  red: "\x1b[31m",
-};
-
-function log(message: string, color: keyof Colors = "reset"): void {
-  console.log(`${colors[color]}${message}${colors.reset}`);
-}
+  generateProject(registry, config, outputPath, output, verifyOptions);
 
-function copyDirectoryRecursive(src: string, dest: string): void {
-  if (!fs.existsSync(dest)) {
-    fs.mkdirSync(dest, { recursive: true });
+  if (output.dryRun) {
+    return;
   }
 
-  const files = fs.readdirSync(src);
-  for (const file of files) {
-    // Skip node_modules, artifacts, cache, and lock files
-    if (
-      ["node_modules", "artifacts", "cache", ".git", "dist"].includes(file) ||
-      file.endsWith(".lock")
-    ) {
-      continue;
-    }
-
-    const srcPath = path.join(src, file);
-    const destPath = path.join(dest, file);
-
-    if (fs.statSync(srcPath).isDirectory()) {
-      copyDirectoryRecursive(srcPath, destPath);
-    } else {
-      fs.copyFileSync(srcPath, destPath);
-    }
-  }
-}
+  // Summary
+  log(`\n${"=".repeat(60)}`, "green");
+  log(verifyOptions ? "✓ Example created and verified!" : "✓ Example created successfully!", "green");
+  log(`${"=".repeat(60)}\n`, "green");
 
-function getContractName(filePath: string): string {
-  const content = fs.readFileSync(filePath, "utf-8");
-  const match = content.match(/^\s*contract\s+(\w+)(?:\s+is\s+|\s*\{)/m);
-  return match ? match[1] : "ExampleContract";
+  log("Next steps:", "yellow");
+  log(`  1. cd ${outputPath}`, "yellow");
+  log(`  2. npm install`, "yellow");
+  log(`  3. npm run compile`, "yellow");
+  log(`  4. npm run test`, "yellow");
+  log("");
 }
 
-function updateDeployScript(outputDir: string, contractName: string, contractPath: string): void {
-  const deployDir = path.join(outputDir, "deploy");
-  const deployScript = path.join(deployDir, "deploy.ts");
-
-  const deployContent = `import { ethers } from "hardhat";
-
-async function main() {
-  const [deployer] = await ethers.getSigners();
+function addToProject(registry: Registry, exampleName: string, projectDir: string, dryRun: boolean): void {
+  if (!registry.examples[exampleName]) {
+    log(`Error: Unknown example "${exampleName}"`, "red");
+    process.exit(1);
+  }
+  const projectPath = path.resolve(projectDir);
 
-  console.log("Deploying ${contractName} with account:", deployer.address);
+  log(`\n${"=".repeat(60)}`, "cyan");
+  log(`Adding FHEVM Example: ${exampleName}`, "cyan");
+  log(`${"=".repeat(60)}\n`, "cyan");
 
-  const Contract = await ethers.getContractFactory("${contractName}");
-  const contract = await Contract.deploy();
-  await contract.waitForDeployment();
+  const plan = addExample(registry, exampleName, projectPath, dryRun);
+  if (dryRun) {
+    return;
+  }
 
-  const contractAddress = await contract.getAddress();
-  console.log("${contractName} deployed to:", contractAddress);
+  log(`\n${"=".repeat(60)}`, "green");
+  log(`✓ Added ${exampleName} to ${projectPath}`, "green");
+  log(`${"=".repeat(60)}\n`, "green");
 
-  return contractAddress;
+  log("Next steps:", "yellow");
+  log(`  1. cd ${projectPath}`, "yellow");
+  log(`  2. npm install`, "yellow");
+  log(`  3. npx hardhat compile`, "yellow");
+  log(`  4. npx hardhat test ${plan.tests[exampleName]}`, "yellow");
+  log("");
 }
 
-main().catch((error) => {
-  console.error(error);
-  process.exitCode = 1;
-});
-`;
-
-  fs.writeFileSync(deployScript, deployContent);
-}
+function newExample(registry: Registry, options: NewExampleOptions, dryRun: boolean): void {
+  log(`\n${"=".repeat(60)}`, "cyan");
+  log(`New FHEVM Example: ${options.contractName}`, "cyan");
+  log(`${"=".repeat(60)}\n`, "cyan");
 
-function updatePackageJson(outputDir: string, exampleName: string, description: string): void {
-  const packageJsonPath = path.join(outputDir, "package.json");
-  let packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
+  const plan = createNewExample(registry, options, dryRun);
+  if (dryRun) {
+    return;
+  }
 
-  packageJson.name = `fhevm-example-${exampleName}`;
-  packageJson.description = `FHEVM Example: ${description}`;
-  packageJson.homepage = `https://github.com/zama-ai/fhevm-examples/tree/main/examples/${exampleName}`;
+  log(`\n${"=".repeat(60)}`, "green");
+  log(`✓ Created ${plan.exampleName}`, "green");
+  log(`${"=".repeat(60)}\n`, "green");
 
-  fs.writeFileSync(packageJsonPath, JSON.stringify(packageJson, null, 2));
+  log("Next steps:", "yellow");
+  log(`  1. Implement ${plan.contractFile} and extend ${plan.testFile}`, "yellow");
+  log(`  2. npx hardhat test ${plan.testFile}`, "yellow");
+  log(`  3. npm run generate-docs ${plan.exampleName}`, "yellow");
+  log("");
 }
 
-function generateReadme(
-  outputDir: string,
-  exampleName: string,
-  description: string,
-  contractName: string
-): void {
-  const readmeContent = `# FHEVM Example: ${exampleName.replace(/-/g, " ").toUpperCase()}
-
-## Overview
-
-${description}
-
-## Description
-
-This is a standalone FHEVM example demonstrating privacy-preserving smart contracts using Fully Homomorphic Encryption (FHE) technology.
-
-## Structure
-
-\`\`\`
-.
-├── contracts/
-│   └── ${contractName}.sol          # Main contract
-├── test/
-│   └── ${contractName}.ts           # Contract tests
-├── hardhat.config.ts               # Hardhat configuration
-├── tsconfig.json                   # TypeScript configuration
-└── package.json                    # Project dependencies
-\`\`\`
-
-## Setup
-
-### Prerequisites
-
-- Node.js >= 20
-- npm >= 7
-
-### Installation
-
-\`\`\`bash
-npm install
-\`\`\`
-
-## Usage
-
-### Compile Contracts
-
-\`\`\`bash
-npm run compile
-\`\`\`
-
-### Run Tests
-
-\`\`\`bash
-npm run test
-\`\`\`
-
-### Deploy (Local)
-
-\`\`\`bash
-npm run deploy:localhost
-\`\`\`
-
-### Deploy (Sepolia Testnet)
-
-\`\`\`bash
-npm run deploy:sepolia
-\`\`\`
-
-## Key Concepts
-
-### Encrypted State
-
-The contract uses encrypted state variables to maintain privacy:
-
-\`\`\`solidity
-euint32 private encryptedValue;
-\`\`\`
-
-### FHE Operations
+function upgradeExisting(registry: Registry, projectDir: string, dryRun: boolean): void {
+  const projectPath = path.resolve(projectDir);
 
-Operations are performed directly on encrypted data:
-
-\`\`\`solidity
-// Encrypt external input
-euint32 internal = FHE.fromExternal(externalEuint32, inputProof);
-
-// Perform computation on encrypted data
-result = FHE.add(encryptedValue, internal);
-
-// Grant permissions for access
-FHE.allowThis(result);
-FHE.allow(result, msg.sender);
-\`\`\`
-
-### Permission Management
-
-All encrypted values require explicit permission grants:
-
-- \`FHE.allowThis(value)\` - Allows the contract to access the value
-- \`FHE.allow(value, address)\` - Allows a specific address to decrypt the value
-
-## Important Notes
-
-- This example demonstrates fundamental FHEVM patterns
-- Never expose private encrypted values without explicit permission
-- Always grant both contract and user permissions when needed
-- Test thoroughly with various inputs before mainnet deployment
-
-## License
+  log(`\n${"=".repeat(60)}`, "cyan");
+  log(`Upgrading FHEVM Project: ${projectPath}`, "cyan");
+  log(`${"=".repeat(60)}\n`, "cyan");
 
-BSD-3-Clause-Clear
+  const upgrade = upgradeProject(registry, projectPath, dryRun);
+  if (dryRun) {
+    return;
+  }
 
-## Support
+  const conflicts = countUpgradeOperations(upgrade.operations, "conflict");
+  if (conflicts > 0) {
+    log("\nResolve the conflicts, then compile and test the project.", "yellow");
+    process.exit(1);
+  }
 
-For questions and support, visit:
-- [Zama Community Forum](https://www.zama.ai/community)
-- [Zama Discord](https://discord.com/invite/zama)
-- [GitHub Issues](https://github.com/zama-ai/fhevm-examples/issues)
-`;
+  log(`\n${"=".repeat(60)}`, "green");
+  log(`✓ Upgraded ${projectPath}`, "green");
+  log(`${"=".repeat(60)}\n`, "green");
 
-  const readmePath = path.join(outputDir, "README.md");
-  fs.writeFileSync(readmePath, readmeContent);
+  const changed = ["update", "merge", "create", "delete"] as const;
+  log(changed.map((action) => `${countUpgradeOperations(upgrade.operations, action)} ${action}d`).join(", "), "yellow");
+  log("\nNext steps:", "yellow");
+  log(`  1. cd ${projectPath}`, "yellow");
+  log(`  2. npm install`, "yellow");
+  log(`  3. npm run compile`, "yellow");
+  log(`  4. npm run test`, "yellow");
+  log("");
 }
 
-async function createExample(exampleName: string, outputPath: string): Promise<void> {
-  if (!EXAMPLES_MAP[exampleName]) {
-    log(`Error: Unknown example "${exampleName}"`, "red");
-    log("Available examples:", "cyan");
-    Object.keys(EXAMPLES_MAP).forEach((name) => {
-      log(`  - ${name}`, "blue");
-    });
-    process.exit(1);
-  }
-
-  const example = EXAMPLES_MAP[exampleName];
-  const templateDir = path.join(__dirname, "..", "fhevm-hardhat-template");
+function createWorkspace(
+  registry: Registry,
+  config: WorkspaceOptions & { output: string },
+  output: OutputOptions,
+  verifyOptions?: VerifyOptions
+): void {
+  const outputPath = path.resolve(config.output);
 
   log(`\n${"=".repeat(60)}`, "cyan");
-  log(`Creating FHEVM Example: ${exampleName}`, "cyan");
+  log("Creating FHEVM Workspace: every example and category", "cyan");
   log(`${"=".repeat(60)}\n`, "cyan");
 
-  // Step 1: Copy template
-  log("Step 1: Copying Hardhat template...", "blue");
-  if (fs.existsSync(outputPath)) {
-    fs.rmSync(outputPath, { recursive: true });
-  }
-  copyDirectoryRecursive(templateDir, outputPath);
-  log("✓ Template copied", "green");
-
-  // Step 2: Copy contract
-  log("Step 2: Copying contract...", "blue");
-  const contractSrcPath = path.join(__dirname, "..", example.contract);
-  const contractName = getContractName(contractSrcPath);
-  const contractDestDir = path.join(outputPath, "contracts");
-  if (!fs.existsSync(contractDestDir)) {
-    fs.mkdirSync(contractDestDir, { recursive: true });
-  }
-  fs.copyFileSync(contractSrcPath, path.join(contractDestDir, `${contractName}.sol`));
-  log(`✓ Contract copied: ${contractName}`, "green");
-
-  // Step 3: Copy test
-  log("Step 3: Copying tests...", "blue");
-  const testSrcPath = path.join(__dirname, "..", example.test);
-  const testDestDir = path.join(outputPath, "test");
-  if (!fs.existsSync(testDestDir)) {
-    fs.mkdirSync(testDestDir, { recursive: true });
-  }
-  fs.copyFileSync(testSrcPath, path.join(testDestDir, `${contractName}.ts`));
-  log("✓ Tests copied", "green");
-
-  // Step 4: Update deploy script
-  log("Step 4: Updating deployment script...", "blue");
-  updateDeployScript(outputPath, contractName, example.contract);
-  log("✓ Deployment script updated", "green");
-
-  // Step 5: Update package.json
-  log("Step 5: Updating package.json...", "blue");
-  updatePackageJson(outputPath, exampleName, example.description);
-  log("✓ Package configuration updated", "green");
+  const plan = generateWorkspace(registry, config, outputPath, output, verifyOptions);
 
-  // Step 6: Generate README
-  log("Step 6: Generating README...", "blue");
-  generateReadme(outputPath, exampleName, example.description, contractName);
-  log("✓ README generated", "green");
+  if (output.dryRun) {
+    return;
+  }
 
   // Summary
   log(`\n${"=".repeat(60)}`, "green");
-  log("✓ Example created successfully!", "green");
+  log(verifyOptions ? "✓ Workspace created and verified!" : "✓ Workspace created successfully!", "green");
   log(`${"=".repeat(60)}\n`, "green");
 
-  log("Next steps:", "yellow");
+  log(`Created ${plan.packages.length} packages in ${outputPath}`, "yellow");
+  log("\nNext steps:", "yellow");
   log(`  1. cd ${outputPath}`, "yellow");
   log(`  2. npm install`, "yellow");
   log(`  3. npm run compile`, "yellow");
@@ -342,21 +169,199 @@ async function createExample(exampleName: string, outputPath: string): Promise<v
 }
 
 // CLI Entry Point
-const args = process.argv.slice(2);
 
-if (args.length < 2 || args.includes("--help")) {
-  log("Usage: create-fhevm-example <example-name> <output-path>", "cyan");
+function parseCliArgs(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      help: { type: "boolean" },
+      all: { type: "boolean" },
+      verify: { type: "boolean" },
+      cache: { type: "string" },
+      registry: { type: "string" },
+      offline: { type: "boolean" },
+      yes: { type: "boolean", short: "y" },
+      config: { type: "string" },
+      network: { type: "string" },
+      template: { type: "string" },
+      "fhevm-version": { type: "string" },
+      exercise: { type: "boolean" },
+      solution: { type: "boolean" },
+      "skip-compile-check": { type: "boolean" },
+      frontend: { type: "boolean" },
+      ci: { type: "boolean" },
+      docs: { type: "boolean" },
+      force: { type: "boolean" },
+      merge: { type: "boolean" },
+      "dry-run": { type: "boolean" },
+      field: { type: "string", multiple: true },
+      domain: { type: "string" },
+      description: { type: "string" },
+    },
+  });
+}
+
+function printUsage(registry: Registry): void {
+  log("Usage: create-fhevm-example <example-name>[,<example-name>...] <output-path> [options]", "cyan");
+  log("       create-fhevm-example --yes --config <file> [options]", "cyan");
+  log("       create-fhevm-example                     (interactive wizard)", "cyan");
+  log("       create-fhevm-example --all <output-path> [options]", "cyan");
+  log("       create-fhevm-example add <example-name> [project-dir] [--dry-run]", "cyan");
+  log(
+    '       create-fhevm-example new [ContractName] [category] [--field "euint64 balance"...] [--domain <dir>] [--dry-run]',
+    "cyan"
+  );
+  log("       create-fhevm-example upgrade [project-dir] [--dry-run]", "cyan");
+  log("\nOptions:", "cyan");
+  log("  --all                Generate every example and category as one npm workspace", "blue");
+  log("  --network <name>     Network targeted by npm run deploy (localhost, sepolia)", "blue");
+  log(`  --template <name>    Project template variant (${listTemplates().join(", ")})`, "blue");
+  log("  --fhevm-version <v>  @fhevm/solidity version to pin (checked against each example)", "blue");
+  log("  --exercise           Replace the contracts' exercise regions with TODO stubs", "blue");
+  log("  --solution           Generate the complete solution of an exercise", "blue");
+  log("  --skip-compile-check Do not install and compile a generated exercise", "blue");
+  log("  --frontend           Add a frontend starter app (frontend/)", "blue");
+  log("  --ci                 Add a GitHub Actions workflow", "blue");
+  log("  --docs               Add the examples' documentation pages", "blue");
+  log("  --config <file>      Read answers from a JSON config saved by the wizard", "blue");
+  log("  -y, --yes            Never prompt; use the arguments, --config and defaults", "blue");
+  log("  --force              Replace the contents of an existing output directory", "blue");
+  log("  --merge              Add to the FHEVM project in an existing output directory", "blue");
+  log("  --dry-run            Print the planned file operations and diffs; write nothing", "blue");
+  log("  --verify             Install, compile and test the generated project", "blue");
+  log("  --cache <dir>        npm cache directory used by --verify and exercise compile checks", "blue");
+  log("  --registry <url>     npm registry or offline mirror used by --verify and exercise compile checks", "blue");
+  log("  --offline            Install only from the npm cache during --verify and exercise compile checks", "blue");
+  log("  --field <type name>  Encrypted field of a new example (repeatable)", "blue");
+  log("  --domain <dir>       contracts/ and test/ directory of a new example (default: its category)", "blue");
+  log("  --description <text> Registry description of a new example", "blue");
+  log("  --help               Show this help message", "blue");
   log("\nAvailable examples:", "cyan");
-  Object.entries(EXAMPLES_MAP).forEach(([name, config]) => {
-    log(`  ${name.padEnd(30)} - ${config.description}`, "blue");
+  Object.entries(registry.examples).forEach(([name, config]) => {
+    log(`  ${name.padEnd(30)} - ${config.summary}`, "blue");
   });
-  process.exit(args.includes("--help") ? 0 : 1);
 }
 
-const exampleName = args[0];
-const outputPath = path.resolve(args[1]);
+let registry: Registry;
+try {
+  registry = loadRegistry();
+} catch (error) {
+  log(`Error: ${(error as Error).message}`, "red");
+  process.exit(1);
+}
+
+registry.warnings.forEach((warning) => log(`Warning: ${warning}`, "yellow"));
+
+let cli: ReturnType<typeof parseCliArgs>;
+try {
+  cli = parseCliArgs(process.argv.slice(2));
+} catch (error) {
+  log(`Error: ${(error as Error).message}`, "red");
+  printUsage(registry);
+  process.exit(1);
+}
+
+if (cli.values.help) {
+  printUsage(registry);
+  process.exit(0);
+}
+
+async function main(): Promise<void> {
+  if (cli.positionals[0] === "add") {
+    if (cli.positionals.length < 2 || cli.positionals.length > 3) {
+      printUsage(registry);
+      process.exit(1);
+    }
+    if (cli.values.force || cli.values.merge) {
+      throw new Error("add never overwrites project files; --force and --merge do not apply");
+    }
+    addToProject(registry, cli.positionals[1], cli.positionals[2] ?? ".", Boolean(cli.values["dry-run"]));
+    return;
+  }
 
-createExample(exampleName, outputPath).catch((error) => {
+  if (cli.positionals[0] === "upgrade") {
+    if (cli.positionals.length > 2) {
+      printUsage(registry);
+      process.exit(1);
+    }
+    if (cli.values.force || cli.values.merge) {
+      throw new Error("upgrade merges your edits with the new version; --force and --merge do not apply");
+    }
+    upgradeExisting(registry, cli.positionals[1] ?? ".", Boolean(cli.values["dry-run"]));
+    return;
+  }
+
+  const output = getOutputOptions(cli.values);
+  const verifyOptions: VerifyOptions | undefined = cli.values.verify
+    ? { cache: cli.values.cache, registry: cli.values.registry, offline: cli.values.offline }
+    : undefined;
+
+  if (cli.positionals[0] === "new") {
+    if (cli.positionals.length > 3) {
+      printUsage(registry);
+      process.exit(1);
+    }
+    const defaults: Partial<NewExampleOptions> = {
+      contractName: cli.positionals[1],
+      category: cli.positionals[2],
+      domain: cli.values.domain,
+      fields: (cli.values.field ?? []).map(parseEncryptedField),
+      description: cli.values.description,
+    };
+    const { contractName, category, fields = [] } = defaults;
+    const dryRun = Boolean(cli.values["dry-run"]);
+    if (contractName && category && fields.length > 0) {
+      newExample(registry, { ...defaults, contractName, category, fields }, dryRun);
+    } else if (!cli.values.yes && isInteractive()) {
+      const options = await runNewExampleWizard(registry, defaults);
+      if (options) {
+        newExample(registry, options, dryRun);
+      }
+    } else {
+      printUsage(registry);
+      process.exit(1);
+    }
+    return;
+  }
+
+  let config: Partial<ProjectConfig> = cli.values.config ? loadProjectConfig(cli.values.config) : {};
+  if (cli.values.all) {
+    if (cli.positionals.length > 1 || (!cli.values.config && cli.positionals.length === 0)) {
+      printUsage(registry);
+      process.exit(1);
+    }
+    if (cli.positionals.length === 1) {
+      config.output = cli.positionals[0];
+    }
+    createWorkspace(registry, resolveWorkspaceConfig(applyCliFlags(config, cli.values)), output, verifyOptions);
+    return;
+  }
+  if (cli.positionals.length > 0) {
+    config = { ...config, category: undefined, examples: cli.positionals[0].split(",").filter(Boolean) };
+  }
+  if (cli.positionals.length > 1) {
+    config.output = cli.positionals[1];
+  }
+  config = applyCliFlags(config, cli.values);
+
+  const useWizard = !cli.values.yes && !cli.values.config && cli.positionals.length === 0;
+  if (useWizard && isInteractive()) {
+    const answers = await runWizard(registry, config, output.policy);
+    if (answers) {
+      createExample(registry, answers.config, { ...output, policy: answers.policy }, verifyOptions);
+    }
+    return;
+  }
+  if (useWizard || (!cli.values.config && cli.positionals.length < 2)) {
+    printUsage(registry);
+    process.exit(1);
+  }
+
+  createExample(registry, resolveProjectConfig(config), output, verifyOptions);
+}
+
+main().catch((error) => {
   log(`Error: ${error.message}`, "red");
   process.exit(1);
 });
@@ -0,0 +1,330 @@
+import { parse, visit } from "@solidity-parser/parser";
+import type {
+  ASTNode,
+  ContractDefinition,
+  FunctionCall,
+  FunctionDefinition,
+  StructDefinition,
+  TypeName,
+  VariableDeclaration,
+} from "@solidity-parser/parser/dist/src/ast-types";
+import { isFheType, SolidityParseError } from "./solidity";
+
+/**
+ * Access Control Analysis
+ * Who can use each encrypted value of a contract after each function, read
+ * statically from its `FHE.allowThis`, `FHE.allow`, `FHE.allowTransient` and
+ * `FHE.makePubliclyDecryptable` calls. Handles are followed through local
+ * variables, storage pointers, struct literals and `push`, so a grant on a
+ * local copy is attributed to the state field it is stored in. Calls to
+ * other functions are not followed.
+ */
+
+/** Field name used for encrypted values a function returns rather than stores */
+export const RETURN_VALUE = "(return value)";
+
+export interface AccessGrant {
+  /** Function making the calls; `constructor` for the constructor */
+  function: string;
+  /** Encrypted state field, e.g. `funds[].encryptedBalance`, or RETURN_VALUE */
+  field: string;
+  /** The value granted, with its keys and indexes as written, e.g. `funds[fundId].encryptedBalance` */
+  value: string;
+  /** The contract keeps access (FHE.allowThis) */
+  contract: boolean;
+  /** Accounts allowed to decrypt (FHE.allow), as written in the source with storage paths resolved */
+  accounts: string[];
+  /** Accounts allowed for the current transaction only (FHE.allowTransient) */
+  transient: string[];
+  /** Made publicly decryptable */
+  public: boolean;
+}
+
+export interface AccessControlMatrix {
+  contract: string;
+  /** Encrypted state fields, in declaration order */
+  fields: string[];
+  grants: AccessGrant[];
+}
+
+/** An expression as a root identifier and a member/index suffix, e.g. `funds` + `[fundId].encryptedBalance` */
+interface ValuePath {
+  root: string;
+  suffix: string;
+}
+
+const GRANT_FUNCTIONS = ["allowThis", "allow", "allowTransient", "makePubliclyDecryptable"];
+
+/**
+ * The path of an expression, with keys and indexes as written in `source`
+ * (whitespace collapsed), so grants on different keys stay apart.
+ */
+function getValuePath(node: ASTNode | undefined | null, source: string): ValuePath | undefined {
+  if (!node) {
+    return undefined;
+  }
+  if (node.type === "Identifier") {
+    return { root: node.name, suffix: "" };
+  }
+  if (node.type === "MemberAccess") {
+    const base = getValuePath(node.expression, source);
+    return base && { root: base.root, suffix: `${base.suffix}.${node.memberName}` };
+  }
+  if (node.type === "IndexAccess") {
+    const base = getValuePath(node.base, source);
+    const index = node.index?.range ? source.slice(node.index.range[0], node.index.range[1] + 1) : "";
+    return base && { root: base.root, suffix: `${base.suffix}[${index.replace(/\s+/g, " ").trim()}]` };
+  }
+  return undefined;
+}
+
+/** The field a value path belongs to: every key and index replaced by `[]` */
+function getFieldPath(value: string): string {
+  let field = "";
+  let depth = 0;
+  for (const char of value) {
+    if (char === "[") {
+      field += depth++ === 0 ? "[" : "";
+    } else if (char === "]") {
+      field += --depth === 0 ? "]" : "";
+    } else if (depth === 0) {
+      field += char;
+    }
+  }
+  return field;
+}
+
+/**
+ * Paths of the encrypted values a state variable of type `typeName` holds:
+ * the variable itself, mapping values, array elements and struct members.
+ */
+function getEncryptedPaths(
+  typeName: TypeName | null,
+  path: string,
+  structs: Map<string, StructDefinition>,
+  seen: Set<string> = new Set()
+): string[] {
+  if (!typeName) {
+    return [];
+  }
+  switch (typeName.type) {
+    case "ElementaryTypeName":
+      return isFheType(typeName.name) ? [path] : [];
+    case "UserDefinedTypeName": {
+      if (isFheType(typeName.namePath)) {
+        return [path];
+      }
+      const struct = structs.get(typeName.namePath);
+      if (!struct || seen.has(struct.name)) {
+        return [];
+      }
+      return struct.members.flatMap((member) =>
+        getEncryptedPaths(member.typeName, `${path}.${member.name}`, structs, new Set([...seen, struct.name]))
+      );
+    }
+    case "Mapping":
+      return getEncryptedPaths(typeName.valueType, `${path}[]`, structs, seen);
+    case "ArrayTypeName":
+      return getEncryptedPaths(typeName.baseTypeName, `${path}[]`, structs, seen);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Where the handles held by local variables end up: each local maps to the
+ * paths it is copied from or stored into.
+ */
+function collectAliases(body: ASTNode, source: string): Map<string, ValuePath[]> {
+  const aliases = new Map<string, ValuePath[]>();
+  const addAlias = (name: string, target: ValuePath) => {
+    const known = aliases.get(name) ?? [];
+    if (!known.some((path) => path.root === target.root && path.suffix === target.suffix)) {
+      aliases.set(name, [...known, target]);
+    }
+  };
+  // A value stored at `target`: a local handle, or a struct literal whose named members are
+  const storeInto = (target: ValuePath, value: ASTNode | null | undefined) => {
+    if (value?.type === "Identifier") {
+      addAlias(value.name, target);
+    } else if (value?.type === "FunctionCall" && value.names.length > 0) {
+      value.names.forEach((name, i) =>
+        storeInto({ root: target.root, suffix: `${target.suffix}.${name}` }, value.arguments[i])
+      );
+    }
+  };
+  // A local initialized or assigned from another value holds the same handle
+  const copyFrom = (local: string | undefined, value: ASTNode | null | undefined) => {
+    const copied = getValuePath(value, source);
+    if (local && copied) {
+      addAlias(local, copied);
+    }
+  };
+
+  visit(body, {
+    VariableDeclarationStatement: (statement) => {
+      const variable = statement.variables[0] as VariableDeclaration | null;
+      if (statement.variables.length === 1 && variable?.name) {
+        storeInto({ root: variable.name, suffix: "" }, statement.initialValue);
+        copyFrom(variable.name, statement.initialValue);
+      }
+    },
+    BinaryOperation: (operation) => {
+      const target = getValuePath(operation.left, source);
+      if (operation.operator === "=" && target) {
+        storeInto(target, operation.right);
+        copyFrom(operation.left.type === "Identifier" ? operation.left.name : undefined, operation.right);
+      }
+    },
+    FunctionCall: (call) => {
+      if (call.expression.type === "MemberAccess" && call.expression.memberName === "push") {
+        const array = getValuePath(call.expression.expression, source);
+        if (array) {
+          storeInto({ root: array.root, suffix: `${array.suffix}[]` }, call.arguments[0]);
+        }
+      }
+    },
+    ReturnStatement: (statement) => {
+      if (statement.expression?.type === "Identifier") {
+        addAlias(statement.expression.name, { root: RETURN_VALUE, suffix: "" });
+      }
+    },
+  });
+  return aliases;
+}
+
+/**
+ * Resolve a path through local aliases to state paths (or RETURN_VALUE).
+ * Paths that only reach locals and parameters resolve to nothing.
+ */
+function resolvePath(
+  path: ValuePath,
+  stateVariables: Set<string>,
+  aliases: Map<string, ValuePath[]>,
+  seen: Set<string> = new Set()
+): string[] {
+  if (stateVariables.has(path.root) || path.root === RETURN_VALUE) {
+    return [`${path.root}${path.suffix}`];
+  }
+  if (seen.has(path.root)) {
+    return [];
+  }
+  const visited = new Set([...seen, path.root]);
+  const resolved = (aliases.get(path.root) ?? []).flatMap((alias) =>
+    resolvePath({ root: alias.root, suffix: `${alias.suffix}${path.suffix}` }, stateVariables, aliases, visited)
+  );
+  return [...new Set(resolved)];
+}
+
+/**
+ * The grant call a FunctionCall makes, as `FHE.allow(value, account)` or
+ * `value.allow(account)` (with `using FHE for ...`).
+ */
+function getGrantCall(call: FunctionCall): { kind: string; value?: ASTNode; account?: ASTNode } | undefined {
+  if (call.expression.type !== "MemberAccess" || !GRANT_FUNCTIONS.includes(call.expression.memberName)) {
+    return undefined;
+  }
+  const kind = call.expression.memberName;
+  const target = call.expression.expression;
+  return target.type === "Identifier" && (target.name === "FHE" || target.name === "TFHE")
+    ? { kind, value: call.arguments[0], account: call.arguments[1] }
+    : { kind, value: target, account: call.arguments[0] };
+}
+
+/**
+ * Grants of one function, one per value path: grants on the same value
+ * are merged, grants on different keys of a mapping or array are not.
+ */
+function analyzeFunction(fn: FunctionDefinition, stateVariables: Set<string>, source: string): AccessGrant[] {
+  if (!fn.body) {
+    return [];
+  }
+  const name = fn.isConstructor ? "constructor" : (fn.name ?? "");
+  const aliases = collectAliases(fn.body, source);
+  const grants = new Map<string, AccessGrant>();
+  const describeAccount = (account: ASTNode | undefined) => {
+    const path = getValuePath(account, source);
+    if (!path) {
+      return "?";
+    }
+    const resolved = resolvePath(path, stateVariables, aliases);
+    return resolved.length === 1 ? resolved[0] : `${path.root}${path.suffix}`;
+  };
+
+  visit(fn.body, {
+    FunctionCall: (call) => {
+      const grant = getGrantCall(call);
+      const path = grant && getValuePath(grant.value, source);
+      if (!grant || !path) {
+        return;
+      }
+      for (const value of resolvePath(path, stateVariables, aliases)) {
+        const entry = grants.get(value) ?? {
+          function: name,
+          field: getFieldPath(value),
+          value,
+          contract: false,
+          accounts: [],
+          transient: [],
+          public: false,
+        };
+        grants.set(value, entry);
+        if (grant.kind === "allowThis") {
+          entry.contract = true;
+        } else if (grant.kind === "makePubliclyDecryptable") {
+          entry.public = true;
+        } else {
+          const accounts = grant.kind === "allow" ? entry.accounts : entry.transient;
+          const account = describeAccount(grant.account);
+          if (!accounts.includes(account)) {
+            accounts.push(account);
+          }
+        }
+      }
+    },
+  });
+  return [...grants.values()];
+}
+
+/**
+ * Analyze the FHE access grants of `contractName` in `source`, for every
+ * function with a body (constructor, external, public, internal and private).
+ */
+export function analyzeAccessControl(source: string, contractName: string, filePath = "<source>"): AccessControlMatrix {
+  let ast: ReturnType<typeof parse>;
+  try {
+    ast = parse(source, { range: true });
+  } catch (error) {
+    throw new SolidityParseError(filePath, (error as Error).message);
+  }
+  const contract = ast.children.find(
+    (child): child is ContractDefinition => child.type === "ContractDefinition" && child.name === contractName
+  );
+  if (!contract) {
+    throw new SolidityParseError(filePath, `contract ${contractName} not found`);
+  }
+
+  const structs = new Map<string, StructDefinition>();
+  for (const child of [...ast.children, ...contract.subNodes] as ASTNode[]) {
+    const definitions = child.type === "ContractDefinition" ? (child.subNodes as ASTNode[]) : [child];
+    definitions
+      .filter((node): node is StructDefinition => node.type === "StructDefinition")
+      .forEach((struct) => structs.set(struct.name, struct));
+  }
+
+  const stateVariables = new Set<string>();
+  const fields: string[] = [];
+  for (const node of contract.subNodes as ASTNode[]) {
+    if (node.type === "StateVariableDeclaration") {
+      for (const variable of node.variables.filter((declaration) => declaration.name)) {
+        stateVariables.add(variable.name!);
+        fields.push(...getEncryptedPaths(variable.typeName, variable.name!, structs));
+      }
+    }
+  }
+
+  const grants = (contract.subNodes as ASTNode[])
+    .filter((node): node is FunctionDefinition => node.type === "FunctionDefinition")
+    .flatMap((fn) => analyzeFunction(fn, stateVariables, source));
+  return { contract: contract.name, fields, grants };
+}
@@ -0,0 +1,212 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Registry } from "./registry";
+import { log } from "./log";
+import { parseSolidity, parseSolidityFile, SolidityParseError } from "./solidity";
+import { listProjectFiles, PackageJson } from "./scaffold";
+import {
+  applyWriteOperations,
+  assertNoConflicts,
+  countOperations,
+  defaultProjectExtras,
+  findHardhatConfig,
+  PlannedFile,
+  planProject,
+  planWrite,
+  ProjectPlan,
+  readPlannedFile,
+  reportWriteOperations,
+} from "./project";
+
+/**
+ * Adding Examples to Existing Projects
+ * Injects an example's contract, test, deploy script and docs page into a
+ * Hardhat project that already exists, following the project's own source
+ * and test directories and touching package.json only for missing packages.
+ */
+
+export interface HardhatProjectInfo {
+  dir: string;
+  /** Hardhat config file name */
+  configFile: string;
+  /** `paths.sources` and `paths.tests`, as POSIX paths relative to the project */
+  sourcesDir: string;
+  testsDir: string;
+  /** Installed @fhevm/solidity version, or the declared range when not installed */
+  fhevmSolidityVersion: string;
+  /** Whether the config loads hardhat-deploy, so deploy scripts will run */
+  usesHardhatDeploy: boolean;
+}
+
+function readConfigPath(config: string, key: "sources" | "tests", fallback: string): string {
+  const match = config.match(new RegExp(`\\b${key}\\s*:\\s*["'\`]([^"'\`]+)["'\`]`));
+  return match ? path.posix.normalize(match[1]).replace(/\/$/, "") : fallback;
+}
+
+/**
+ * Inspect an existing project. Throws when it is not an FHEVM Hardhat project.
+ */
+export function detectHardhatProject(projectDir: string): HardhatProjectInfo {
+  const configFile = findHardhatConfig(projectDir);
+  if (!configFile) {
+    throw new Error(`${projectDir} is not a Hardhat project (no hardhat.config.ts or hardhat.config.js)`);
+  }
+  const packageJsonPath = path.join(projectDir, "package.json");
+  if (!fs.existsSync(packageJsonPath)) {
+    throw new Error(`${projectDir} has no package.json`);
+  }
+
+  const packageJson: PackageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
+  const declared = { ...packageJson.devDependencies, ...packageJson.dependencies }["@fhevm/solidity"];
+  if (!declared) {
+    throw new Error(`${projectDir} does not depend on @fhevm/solidity; only FHEVM projects can receive examples`);
+  }
+  const installedPath = path.join(projectDir, "node_modules", "@fhevm", "solidity", "package.json");
+  const installed = fs.existsSync(installedPath) ? JSON.parse(fs.readFileSync(installedPath, "utf-8")).version : undefined;
+
+  const config = fs.readFileSync(path.join(projectDir, configFile), "utf-8");
+  return {
+    dir: projectDir,
+    configFile,
+    sourcesDir: readConfigPath(config, "sources", "contracts"),
+    testsDir: readConfigPath(config, "tests", "test"),
+    fhevmSolidityVersion: installed ?? declared,
+    usesHardhatDeploy: /["']hardhat-deploy["']/.test(config),
+  };
+}
+
+/**
+ * Contract names declared in the project's sources, mapped to their files.
+ */
+function getDeclaredContracts(project: HardhatProjectInfo): Map<string, string> {
+  const declared = new Map<string, string>();
+  const sourcesPath = path.join(project.dir, project.sourcesDir);
+  if (!fs.existsSync(sourcesPath)) {
+    return declared;
+  }
+
+  for (const file of listProjectFiles(sourcesPath).filter((name) => name.endsWith(".sol"))) {
+    try {
+      for (const contract of parseSolidityFile(path.join(sourcesPath, file)).contracts) {
+        declared.set(contract.name, `${project.sourcesDir}/${file}`);
+      }
+    } catch (error) {
+      if (!(error instanceof SolidityParseError)) {
+        throw error;
+      }
+    }
+  }
+  return declared;
+}
+
+/**
+ * Plan the files an example adds to `project`: its contracts (with their
+ * local imports), test, docs page and, when the project uses hardhat-deploy,
+ * its deploy script. package.json lists only the packages the example needs,
+ * so merging it adds the missing ones and leaves the rest alone. Throws a
+ * CompatibilityError when the example does not support the project's
+ * @fhevm/solidity version.
+ */
+export function planAddition(registry: Registry, exampleName: string, project: HardhatProjectInfo): ProjectPlan {
+  const base = planProject(registry, {
+    examples: [exampleName],
+    network: "localhost",
+    extras: { ...defaultProjectExtras(), docs: true },
+    fhevmVersion: project.fhevmSolidityVersion,
+  });
+
+  const files = new Map<string, PlannedFile>();
+  for (const [relativePath, file] of base.files) {
+    const [topDir, ...rest] = relativePath.split("/");
+    if (file.shared) {
+      continue;
+    } else if (topDir === "contracts") {
+      files.set([project.sourcesDir, ...rest].join("/"), file);
+    } else if (topDir === "test") {
+      files.set([project.testsDir, ...rest].join("/"), file);
+    } else if (topDir === "deploy") {
+      if (project.usesHardhatDeploy) {
+        files.set(relativePath, file);
+      } else {
+        base.warnings.push(
+          `${project.configFile} does not load hardhat-deploy; skipped ${relativePath} (install hardhat-deploy and ` +
+            `add import "hardhat-deploy" to use it)`
+        );
+      }
+    } else {
+      files.set(relativePath, file);
+    }
+  }
+  files.set("package.json", {
+    content: JSON.stringify({ dependencies: base.dependencies }, null, 2),
+    shared: true,
+  });
+
+  const tests = Object.fromEntries(
+    Object.entries(base.tests).map(([name, testFile]) => [name, testFile.replace(/^test\//, `${project.testsDir}/`)])
+  );
+  return { ...base, files, tests };
+}
+
+/**
+ * Add an example to the project in `projectDir`, logging each step. Files
+ * the example brings are never overwritten: identical ones are skipped, and
+ * a differing file or a contract name already declared elsewhere in the
+ * project aborts before anything is written. With `dryRun` the planned
+ * operations are printed instead.
+ */
+export function addExample(registry: Registry, exampleName: string, projectDir: string, dryRun: boolean): ProjectPlan {
+  log("Step 1: Inspecting project...", "blue");
+  const project = detectHardhatProject(projectDir);
+  log(`  ✓ ${project.configFile} (sources: ${project.sourcesDir}/, tests: ${project.testsDir}/)`, "green");
+  log(`  ✓ @fhevm/solidity ${project.fhevmSolidityVersion}`, "green");
+
+  log("Step 2: Planning example files...", "blue");
+  const plan = planAddition(registry, exampleName, project);
+
+  const declared = getDeclaredContracts(project);
+  const clashes: string[] = [];
+  for (const [relativePath, file] of plan.files) {
+    if (!relativePath.endsWith(".sol")) {
+      continue;
+    }
+    // Contracts with exercise regions are planned as rendered content rather than copied
+    for (const contract of parseSolidity(readPlannedFile(file), file.source ?? relativePath).contracts) {
+      const existing = declared.get(contract.name);
+      if (existing && existing !== relativePath) {
+        clashes.push(`${contract.name} (from ${relativePath}) is already declared in ${existing}`);
+      }
+    }
+  }
+  if (clashes.length > 0) {
+    throw new Error(
+      `Cannot add ${exampleName}: contract names would clash:\n${clashes.map((clash) => `  - ${clash}`).join("\n")}`
+    );
+  }
+
+  plan.warnings.forEach((warning) => log(`  ⚠ ${warning}`, "yellow"));
+  const operations = planWrite(plan, projectDir, "merge");
+
+  if (dryRun) {
+    log(`Step 3: Planned changes in ${projectDir} (dry run)...`, "blue");
+    reportWriteOperations(operations);
+    assertNoConflicts(operations, projectDir);
+    log("Dry run: nothing was written", "yellow");
+    return plan;
+  }
+
+  log("Step 3: Writing files...", "blue");
+  applyWriteOperations(projectDir, operations);
+  for (const operation of operations) {
+    if (operation.action === "create" || operation.action === "update") {
+      log(`  ✓ ${operation.action === "create" ? "Added" : "Updated"} ${operation.path}`, "green");
+    } else if (operation.action === "unchanged" && operation.path !== "package.json") {
+      log(`  ✓ Already present: ${operation.path}`, "blue");
+    }
+  }
+  if (countOperations(operations, "create") === 0) {
+    log(`${exampleName} is already part of this project`, "yellow");
+  }
+
+  return plan;
+}
@@ -0,0 +1,545 @@
+import type { SolidityContract } from "./solidity";
+import { createTemplateLoader, getTemplateScopes, renderTemplate, TemplateLoader } from "./templating";
+
+/**
+ * Deployment Scripts
+ * Generates hardhat-deploy `DeployFunction` modules under deploy/, one per
+ * contract, matching the layout of fhevm-hardhat-template. The registry's
+ * `deploy` entry supplies constructor arguments and post-deploy setup calls;
+ * in a category, contracts referencing each other's addresses are deployed
+ * in dependency order. Template variants without hardhat-deploy get a single
+ * `hardhat run` script doing the same instead. The code itself comes from
+ * the templates in scripts/templates/deploy/.
+ */
+
+export type EncryptedInputType = "bool" | "uint8" | "uint16" | "uint32" | "uint64" | "uint128" | "uint256" | "address";
+
+/**
+ * A constructor or setup argument:
+ * - a JSON literal (string, number, boolean)
+ * - `{ "account": "deployer" }`: the address of a named account
+ * - `{ "address": "<example-name>" }`: the deployed address of another
+ *   example of the same category, which is then deployed first
+ * - `{ "encrypted": "uint64", "value": 1000 }`: an encrypted input created
+ *   with the FHEVM plugin. It is passed as its handle; the input proof is
+ *   appended right after the last encrypted argument of the call.
+ */
+export type DeployArg =
+  | string
+  | number
+  | boolean
+  | { account: string }
+  | { address: string }
+  | { encrypted: EncryptedInputType; value: string | number | boolean };
+
+export interface DeployStep {
+  method: string;
+  args: DeployArg[];
+  /** Named account sending the transaction (default: deployer) */
+  from: string;
+}
+
+export interface DeployConfig {
+  args: DeployArg[];
+  setup: DeployStep[];
+}
+
+/** A contract's place in a multi-contract deployment */
+export interface DeployTarget {
+  /** Solidity contract name, used as artifact name and primary tag */
+  contractName: string;
+  /** Example name, added as a secondary tag */
+  exampleName: string;
+  /** Tags of the deploy modules that must run first */
+  dependencies: string[];
+  deploy: DeployConfig;
+}
+
+const DEFAULT_ACCOUNT = "deployer";
+const MAX_LINE_LENGTH = 120;
+
+/** RelayerEncryptedInput method adding a value of each type */
+export const ENCRYPTED_INPUT_METHODS: Record<EncryptedInputType, string> = {
+  bool: "addBool",
+  uint8: "add8",
+  uint16: "add16",
+  uint32: "add32",
+  uint64: "add64",
+  uint128: "add128",
+  uint256: "add256",
+  address: "addAddress",
+};
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEncrypted(arg: DeployArg): arg is { encrypted: EncryptedInputType; value: string | number | boolean } {
+  return isObject(arg) && "encrypted" in arg;
+}
+
+function isAccount(arg: DeployArg): arg is { account: string } {
+  return isObject(arg) && "account" in arg;
+}
+
+function isAddressReference(arg: DeployArg): arg is { address: string } {
+  return isObject(arg) && "address" in arg;
+}
+
+export function emptyDeployConfig(): DeployConfig {
+  return { args: [], setup: [] };
+}
+
+function parseArg(raw: unknown, where: string, issues: string[]): DeployArg {
+  if (typeof raw === "string" || typeof raw === "number" || typeof raw === "boolean") {
+    return raw;
+  }
+  if (isObject(raw) && Object.keys(raw).length === 1 && typeof raw.account === "string") {
+    return { account: raw.account };
+  }
+  if (isObject(raw) && Object.keys(raw).length === 1 && typeof raw.address === "string") {
+    return { address: raw.address };
+  }
+  if (isObject(raw) && typeof raw.encrypted === "string" && Object.keys(raw).length === 2) {
+    const type = raw.encrypted as EncryptedInputType;
+    const value = raw.value;
+    if (!(type in ENCRYPTED_INPUT_METHODS)) {
+      issues.push(
+        `${where}: unknown encrypted type "${type}" (expected one of: ${Object.keys(ENCRYPTED_INPUT_METHODS).join(", ")})`
+      );
+    } else if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+      issues.push(`${where}: encrypted "value" must be a string, number or boolean`);
+    } else {
+      return { encrypted: type, value };
+    }
+    return "";
+  }
+  issues.push(
+    `${where}: argument must be a literal, { "account": ... }, { "address": ... } or { "encrypted": ..., "value": ... }`
+  );
+  return "";
+}
+
+function parseArgList(raw: unknown, where: string, issues: string[]): DeployArg[] {
+  if (raw === undefined) {
+    return [];
+  }
+  if (!Array.isArray(raw)) {
+    issues.push(`${where}: "args" must be an array`);
+    return [];
+  }
+  return raw.map((arg, i) => parseArg(arg, `${where} argument ${i + 1}`, issues));
+}
+
+/**
+ * Validate the shape of a registry `deploy` entry. Problems are appended to
+ * `issues`; the returned config only contains the valid parts.
+ */
+export function parseDeployConfig(raw: unknown, where: string, issues: string[]): DeployConfig {
+  const config = emptyDeployConfig();
+  if (!isObject(raw)) {
+    issues.push(`${where}: "deploy" must be an object`);
+    return config;
+  }
+
+  config.args = parseArgList(raw.args, `${where}: constructor`, issues);
+  if (config.args.some(isEncrypted)) {
+    // An encrypted input is bound to the contract address, which does not exist yet
+    issues.push(`${where}: constructor arguments cannot be encrypted inputs`);
+  }
+
+  if (raw.setup !== undefined && !Array.isArray(raw.setup)) {
+    issues.push(`${where}: "setup" must be an array`);
+  } else {
+    (raw.setup as unknown[] | undefined)?.forEach((step, i) => {
+      const stepWhere = `${where}: setup step ${i + 1}`;
+      if (!isObject(step) || typeof step.method !== "string" || step.method.length === 0) {
+        issues.push(`${stepWhere}: "method" must be a non-empty string`);
+        return;
+      }
+      if (step.from !== undefined && typeof step.from !== "string") {
+        issues.push(`${stepWhere}: "from" must be a named account`);
+      }
+      for (const key of Object.keys(step)) {
+        if (!["method", "args", "from"].includes(key)) {
+          issues.push(`${stepWhere}: unknown field "${key}"`);
+        }
+      }
+      config.setup.push({
+        method: step.method,
+        args: parseArgList(step.args, stepWhere, issues),
+        from: typeof step.from === "string" ? step.from : DEFAULT_ACCOUNT,
+      });
+    });
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!["args", "setup"].includes(key)) {
+      issues.push(`${where}: unknown field "${key}"`);
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Examples whose deployed address the config references, in order of first use.
+ */
+export function getAddressReferences(config: DeployConfig): string[] {
+  const args = [...config.args, ...config.setup.flatMap((step) => step.args)];
+  return [...new Set(args.filter(isAddressReference).map((arg) => arg.address))];
+}
+
+/**
+ * Apply a category's deploy entry on top of an example's own: constructor
+ * arguments are replaced when the category declares any, setup steps are
+ * appended.
+ */
+export function mergeDeployConfigs(base: DeployConfig, extra: DeployConfig): DeployConfig {
+  return {
+    args: extra.args.length > 0 ? extra.args : base.args,
+    setup: [...base.setup, ...extra.setup],
+  };
+}
+
+/**
+ * Topologically sort `dependencies` (name → names it needs deployed first),
+ * keeping the given order among independent entries. Throws on a cycle.
+ */
+export function getDeployOrder(dependencies: Record<string, string[]>): string[] {
+  const order: string[] = [];
+  const pending = Object.keys(dependencies);
+
+  while (pending.length > 0) {
+    const next = pending.find((name) =>
+      dependencies[name].every((dependency) => order.includes(dependency) || !(dependency in dependencies))
+    );
+    if (!next) {
+      throw new Error(`Deployment dependency cycle between: ${pending.join(", ")}`);
+    }
+    order.push(next);
+    pending.splice(pending.indexOf(next), 1);
+  }
+
+  return order;
+}
+
+/**
+ * Solidity parameter types a call receives for `args`: each encrypted
+ * argument is an `externalE*` handle and the shared proof is `bytes`.
+ */
+function expectedParameterTypes(args: DeployArg[]): Array<string | null> {
+  const types: Array<string | null> = args.map((arg) =>
+    isEncrypted(arg) ? `externalE${arg.encrypted}` : null
+  );
+  const lastEncrypted = args.map(isEncrypted).lastIndexOf(true);
+  if (lastEncrypted !== -1) {
+    types.splice(lastEncrypted + 1, 0, "bytes");
+  }
+  return types;
+}
+
+function signatureMismatch(parameterTypes: string[], args: DeployArg[]): string | null {
+  const expected = expectedParameterTypes(args);
+  if (expected.length !== parameterTypes.length) {
+    return `expects ${parameterTypes.length} argument(s), got ${expected.length}`;
+  }
+  for (let i = 0; i < expected.length; i++) {
+    const isExternal = parameterTypes[i].startsWith("externalE");
+    if (expected[i] === null ? isExternal : expected[i] !== parameterTypes[i]) {
+      return `argument ${i + 1} is ${parameterTypes[i]}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a deploy config against the contract's constructor and functions.
+ * Returns one message per mismatch.
+ */
+export function checkDeployConfig(contract: SolidityContract, config: DeployConfig): string[] {
+  const issues: string[] = [];
+
+  const constructorMismatch = signatureMismatch(
+    contract.constructorParameters.map((parameter) => parameter.type),
+    config.args
+  );
+  if (constructorMismatch) {
+    issues.push(`${contract.name} constructor ${constructorMismatch}`);
+  }
+
+  config.setup.forEach((step, i) => {
+    const candidates = contract.functions.filter((fn) => fn.name === step.method);
+    if (candidates.length === 0) {
+      issues.push(`setup step ${i + 1}: ${contract.name} has no external or public function "${step.method}"`);
+      return;
+    }
+    const mismatches = candidates.map((fn) =>
+      signatureMismatch(
+        fn.parameters.map((parameter) => parameter.type),
+        step.args
+      )
+    );
+    if (mismatches.every(Boolean)) {
+      issues.push(`setup step ${i + 1}: ${contract.name}.${step.method} ${mismatches[0]}`);
+    }
+  });
+
+  return issues;
+}
+
+function toCamelCase(name: string): string {
+  return `${name[0].toLowerCase()}${name.slice(1)}`;
+}
+
+function renderValue(arg: { encrypted: EncryptedInputType; value: string | number | boolean }): string {
+  if (arg.encrypted.startsWith("uint") && typeof arg.value === "string") {
+    return `BigInt(${JSON.stringify(arg.value)})`;
+  }
+  return JSON.stringify(arg.value);
+}
+
+/**
+ * Render the argument list of a call. Encrypted arguments are read from
+ * `inputVariable` (the result of `encrypt()`) in declaration order, address
+ * references from the expressions in `references`, and named accounts through
+ * `account`.
+ */
+function renderArgs(
+  args: DeployArg[],
+  inputVariable: string,
+  references: Record<string, string>,
+  account: (name: string) => string = (name) => name
+): string[] {
+  const rendered: string[] = [];
+  let handle = 0;
+  const lastEncrypted = args.map(isEncrypted).lastIndexOf(true);
+
+  args.forEach((arg, i) => {
+    if (isEncrypted(arg)) {
+      rendered.push(`${inputVariable}.handles[${handle++}]`);
+    } else if (isAccount(arg)) {
+      rendered.push(account(arg.account));
+    } else if (isAddressReference(arg)) {
+      rendered.push(references[arg.address]);
+    } else {
+      rendered.push(JSON.stringify(arg));
+    }
+    if (i === lastEncrypted) {
+      rendered.push(`${inputVariable}.inputProof`);
+    }
+  });
+
+  return rendered;
+}
+
+function collectAccounts(config: DeployConfig): string[] {
+  const accounts = new Set<string>([DEFAULT_ACCOUNT]);
+  const addFrom = (args: DeployArg[]) => args.filter(isAccount).forEach((arg) => accounts.add(arg.account));
+  addFrom(config.args);
+  for (const step of config.setup) {
+    accounts.add(step.from);
+    addFrom(step.args);
+  }
+  return [...accounts];
+}
+
+/** Template context of a setup step; `call` is the rendered, indented call */
+interface SetupStepContext {
+  inputVariable: string;
+  from: string;
+  inputs: Array<{ method: string; value: string }>;
+  call: string;
+}
+
+/**
+ * Template contexts of the setup steps of `config`. Encrypted inputs are
+ * named after the method (`<method>Input`, `<method>Input2`, ...);
+ * `renderCall` renders the call of a step given its input variable.
+ */
+function getSetupSteps(config: DeployConfig, renderCall: (step: DeployStep, inputVariable: string) => string): SetupStepContext[] {
+  const inputNames = new Map<string, number>();
+  return config.setup.map((step) => {
+    const count = (inputNames.get(step.method) ?? 0) + 1;
+    inputNames.set(step.method, count);
+    const inputVariable = `${step.method}Input${count > 1 ? count : ""}`;
+    return {
+      inputVariable,
+      from: step.from,
+      inputs: step.args
+        .filter(isEncrypted)
+        .map((arg) => ({ method: ENCRYPTED_INPUT_METHODS[arg.encrypted], value: renderValue(arg) })),
+      call: renderCall(step, inputVariable),
+    };
+  });
+}
+
+function usesEncryptedInputs(config: DeployConfig): boolean {
+  return config.setup.some((step) => step.args.some(isEncrypted));
+}
+
+function renderTagList(tags: string[]): string {
+  return tags.map((tag) => `"${tag}"`).join(", ");
+}
+
+export function getDeployFileName(target: DeployTarget): string {
+  return `${target.contractName}.ts`;
+}
+
+/**
+ * Render the deploy module of `target` from deploy/hardhat-deploy.ts.tpl,
+ * honouring the target example's template overrides by default.
+ * `contractNames` maps the examples it references by address to their
+ * contract (deployment) names.
+ */
+export function renderDeployFunction(
+  target: DeployTarget,
+  contractNames: Record<string, string> = {},
+  loader: TemplateLoader = createTemplateLoader(getTemplateScopes(target.exampleName))
+): string {
+  const { contractName, exampleName, dependencies, deploy: config } = target;
+  const deployedVariable = `deployed${contractName}`;
+
+  const references: Record<string, string> = {};
+  for (const example of getAddressReferences(config)) {
+    if (!contractNames[example]) {
+      throw new Error(`${contractName}: referenced example "${example}" is not part of this deployment`);
+    }
+    references[example] = `${toCamelCase(contractNames[example])}.address`;
+  }
+
+  const setup = getSetupSteps(config, (step, inputVariable) => {
+    const callArgs = [
+      JSON.stringify(contractName),
+      `{ from: ${step.from}, log: true }`,
+      JSON.stringify(step.method),
+      ...renderArgs(step.args, inputVariable, references),
+    ];
+    const call = `  await execute(${callArgs.join(", ")});`;
+    return call.length <= MAX_LINE_LENGTH
+      ? call
+      : `  await execute(\n${callArgs.map((arg) => `    ${arg},`).join("\n")}\n  );`;
+  });
+
+  const helpers = [
+    "deploy",
+    ...(setup.length > 0 ? ["execute"] : []),
+    ...(Object.keys(references).length > 0 ? ["get"] : []),
+  ];
+  return renderTemplate(
+    "deploy/hardhat-deploy.ts.tpl",
+    {
+      accounts: collectAccounts(config).join(", "),
+      helpers: helpers.join(", "),
+      references: Object.keys(references).map((example) => ({
+        variable: toCamelCase(contractNames[example]),
+        contractName: contractNames[example],
+      })),
+      deployedVariable,
+      contractName,
+      deployer: DEFAULT_ACCOUNT,
+      args: renderArgs(config.args, "", references).join(", "),
+      setup,
+      usesEncryption: usesEncryptedInputs(config),
+      id: `deploy_${toCamelCase(contractName)}`,
+      tags: renderTagList([contractName, exampleName]),
+      dependencies: renderTagList(dependencies),
+    },
+    loader
+  );
+}
+
+export const DEPLOYMENT_MANIFEST_FILE = "deployments-manifest.json";
+
+/**
+ * Render a deploy module that runs after every target and records, per
+ * network, the address and dependencies of each contract in
+ * deployments-manifest.json. `targets` must be in deployment order.
+ */
+export function renderDeploymentManifest(
+  projectName: string,
+  targets: DeployTarget[],
+  loader: TemplateLoader = createTemplateLoader()
+): string {
+  return renderTemplate(
+    "deploy/manifest.ts.tpl",
+    {
+      projectName,
+      manifestFile: DEPLOYMENT_MANIFEST_FILE,
+      contracts: targets.map((target) => ({
+        example: target.exampleName,
+        contract: target.contractName,
+        dependencies: renderTagList(target.dependencies),
+      })),
+      dependencies: renderTagList(targets.map((target) => target.exampleName)),
+    },
+    loader
+  );
+}
+
+export const DEPLOY_SCRIPT_FILE = "deploy.ts";
+
+/**
+ * Render a standalone `hardhat run` script deploying every target in order
+ * with ethers, running its setup steps, and recording the deployment in
+ * deployments-manifest.json like the hardhat-deploy manifest module. Setup
+ * steps may only be sent by the deployer (the script has no named accounts).
+ */
+export function renderDeployScript(
+  projectName: string,
+  targets: DeployTarget[],
+  loader: TemplateLoader = createTemplateLoader()
+): string {
+  const references = Object.fromEntries(
+    targets.map((target) => [target.exampleName, `${toCamelCase(target.contractName)}Address`])
+  );
+  const account = (name: string) => `${name}.address`;
+
+  const sections = targets.map((target) => {
+    const { contractName, exampleName, dependencies, deploy: config } = target;
+    const unsupported = collectAccounts(config).filter((name) => name !== DEFAULT_ACCOUNT);
+    if (unsupported.length > 0) {
+      throw new Error(
+        `${contractName}: deploy scripts only have the deployer account, not ${unsupported.join(", ")}`
+      );
+    }
+
+    const variable = toCamelCase(contractName);
+    const setup = getSetupSteps(config, (step, inputVariable) => {
+      const args = renderArgs(step.args, inputVariable, references, account);
+      const call = `  await (await ${variable}.${step.method}(${args.join(", ")})).wait();`;
+      if (call.length <= MAX_LINE_LENGTH) {
+        return call;
+      }
+      return [
+        "  await (",
+        `    await ${variable}.${step.method}(`,
+        ...args.map((arg) => `      ${arg},`),
+        "    )",
+        "  ).wait();",
+      ].join("\n");
+    });
+
+    return {
+      contractName,
+      exampleName,
+      variable,
+      args: renderArgs(config.args, "", references, account).join(", "),
+      dependencies: renderTagList(dependencies),
+      setup,
+    };
+  });
+
+  return renderTemplate(
+    "deploy/script.ts.tpl",
+    {
+      projectName,
+      manifestFile: DEPLOYMENT_MANIFEST_FILE,
+      usesEncryption: targets.some((target) => usesEncryptedInputs(target.deploy)),
+      targets: sections,
+    },
+    loader
+  );
+}
@@ -0,0 +1,232 @@
+/**
+ * Line Diffs
+ * Unified diffs between two versions of a text file, used to preview what a
+ * generator would change before it touches the disk, and three-way merges
+ * carrying generator changes into files the user has edited.
+ */
+
+export type DiffOp = { type: "equal" | "delete" | "insert"; line: string };
+
+export function splitLines(text: string): string[] {
+  if (text === "") {
+    return [];
+  }
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Line-level edit script from `a` to `b` (longest common subsequence).
+ */
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  // Common prefix and suffix are kept out of the quadratic table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = a.slice(0, start).map((line) => ({ type: "equal", line }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[start + i] === b[start + j]) {
+      ops.push({ type: "equal", line: a[start + i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+      // Removed lines come before the lines replacing them, as in `diff -u`
+      ops.push({ type: "delete", line: a[start + i] });
+      i++;
+    } else {
+      ops.push({ type: "insert", line: b[start + j] });
+      j++;
+    }
+  }
+  a.slice(endA).forEach((line) => ops.push({ type: "equal", line }));
+
+  return ops;
+}
+
+/**
+ * Render a unified diff (`diff -u` style). Returns an empty string when the
+ * texts are identical.
+ */
+export function unifiedDiff(before: string, after: string, fromLabel: string, toLabel: string, context = 3): string {
+  const ops = diffLines(splitLines(before), splitLines(after));
+  if (ops.every((op) => op.type === "equal")) {
+    return "";
+  }
+
+  // Group changes whose context windows overlap into hunks
+  const changed = ops.flatMap((op, index) => (op.type === "equal" ? [] : [index]));
+  const hunks: Array<[number, number]> = [];
+  for (const index of changed) {
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      hunks.push([index, index]);
+    }
+  }
+
+  const lines = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  for (const [first, last] of hunks) {
+    const from = Math.max(0, first - context);
+    const to = Math.min(ops.length - 1, last + context);
+
+    // Line numbers of the hunk start in each file
+    let oldLine = 1;
+    let newLine = 1;
+    for (const op of ops.slice(0, from)) {
+      oldLine += op.type === "insert" ? 0 : 1;
+      newLine += op.type === "delete" ? 0 : 1;
+    }
+
+    const body = ops.slice(from, to + 1);
+    const oldCount = body.filter((op) => op.type !== "insert").length;
+    const newCount = body.filter((op) => op.type !== "delete").length;
+    lines.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`
+    );
+    for (const op of body) {
+      lines.push(`${op.type === "equal" ? " " : op.type === "delete" ? "-" : "+"}${op.line}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/** Lines `start` to `end` (exclusive) of the base replaced by `lines` */
+interface Hunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function getHunks(ops: DiffOp[]): Hunk[] {
+  const hunks: Hunk[] = [];
+  let baseLine = 0;
+  let current: Hunk | undefined;
+  for (const op of ops) {
+    if (op.type === "equal") {
+      current = undefined;
+      baseLine++;
+      continue;
+    }
+    if (!current) {
+      current = { start: baseLine, end: baseLine, lines: [] };
+      hunks.push(current);
+    }
+    if (op.type === "delete") {
+      current.end++;
+      baseLine++;
+    } else {
+      current.lines.push(op.line);
+    }
+  }
+  return hunks;
+}
+
+function applyHunks(base: string[], hunks: Hunk[], start: number, end: number): string[] {
+  const lines: string[] = [];
+  let baseLine = start;
+  for (const hunk of hunks) {
+    lines.push(...base.slice(baseLine, hunk.start), ...hunk.lines);
+    baseLine = hunk.end;
+  }
+  lines.push(...base.slice(baseLine, end));
+  return lines;
+}
+
+export interface MergeResult {
+  text: string;
+  /** Number of conflicting regions, written between `<<<<<<<` and `>>>>>>>` markers */
+  conflicts: number;
+}
+
+/**
+ * Three-way merge of the changes `ours` and `theirs` each made to `base`.
+ * Changes to the same or adjacent lines of the base conflict unless both
+ * sides made the same change. Line endings and the final newline follow
+ * `ours`.
+ */
+export function mergeText(
+  base: string,
+  ours: string,
+  theirs: string,
+  oursLabel: string,
+  theirsLabel: string
+): MergeResult {
+  const baseLines = splitLines(base);
+  const oursHunks = getHunks(diffLines(baseLines, splitLines(ours)));
+  const theirsHunks = getHunks(diffLines(baseLines, splitLines(theirs)));
+
+  const lines: string[] = [];
+  let conflicts = 0;
+  let baseLine = 0;
+  let i = 0;
+  let j = 0;
+  while (i < oursHunks.length || j < theirsHunks.length) {
+    // Start a group at the earliest hunk and pull in every hunk of either side it overlaps
+    const group: { ours: Hunk[]; theirs: Hunk[] } = { ours: [], theirs: [] };
+    const first =
+      j === theirsHunks.length || (i < oursHunks.length && oursHunks[i].start <= theirsHunks[j].start)
+        ? oursHunks[i]
+        : theirsHunks[j];
+    const start = first.start;
+    let end = first.end;
+    let grew = true;
+    while (grew) {
+      grew = false;
+      if (i < oursHunks.length && oursHunks[i].start <= end) {
+        end = Math.max(end, oursHunks[i].end);
+        group.ours.push(oursHunks[i++]);
+        grew = true;
+      }
+      if (j < theirsHunks.length && theirsHunks[j].start <= end) {
+        end = Math.max(end, theirsHunks[j].end);
+        group.theirs.push(theirsHunks[j++]);
+        grew = true;
+      }
+    }
+
+    lines.push(...baseLines.slice(baseLine, start));
+    const oursLines = applyHunks(baseLines, group.ours, start, end);
+    const theirsLines = applyHunks(baseLines, group.theirs, start, end);
+    if (group.theirs.length === 0 || oursLines.join("\n") === theirsLines.join("\n")) {
+      lines.push(...oursLines);
+    } else if (group.ours.length === 0) {
+      lines.push(...theirsLines);
+    } else {
+      lines.push(`<<<<<<< ${oursLabel}`, ...oursLines, "=======", ...theirsLines, `>>>>>>> ${theirsLabel}`);
+      conflicts++;
+    }
+    baseLine = end;
+  }
+  lines.push(...baseLines.slice(baseLine));
+
+  const eol = ours.includes("\r\n") ? "\r\n" : "\n";
+  const finalNewline = lines.length > 0 && (ours === "" ? theirs : ours).endsWith("\n");
+  return { text: `${lines.join(eol)}${finalNewline ? eol : ""}`, conflicts };
+}
@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getMainContract, parseSolidityFile, SolidityContract } from "./solidity";
+
+/**
+ * Example Discovery
+ * Scans contracts/**\/*.sol, pairs each contract with its test under test/**
+ * and reads example metadata from the contract's NatSpec block:
+ *
+ *   @title             → title
+ *   @dev               → summary
+ *   @notice            → description
+ *   @custom:category   → category
+ */
+
+export interface DiscoveredExample {
+  title: string;
+  summary?: string;
+  description?: string;
+  category: string;
+  contract: string;
+  test: string;
+}
+
+export interface DiscoveryResult {
+  examples: Record<string, DiscoveredExample>;
+  warnings: string[];
+}
+
+function walk(dir: string, extension: string): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walk(fullPath, extension));
+    } else if (entry.name.endsWith(extension)) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+export function toKebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1-$2")
+    .toLowerCase();
+}
+
+export function toTitleCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2");
+}
+
+/**
+ * Locate the deployable contract declared in a Solidity source file.
+ */
+function readContractHeader(filePath: string): SolidityContract | undefined {
+  return getMainContract(parseSolidityFile(filePath));
+}
+
+function findTest(contractRelPath: string, contractName: string, tests: string[]): string[] {
+  const candidates = tests.filter((test) => path.basename(test, ".ts") === contractName);
+  const sameDir = path.posix.join("test", path.posix.dirname(contractRelPath), `${contractName}.ts`);
+  return candidates.includes(sameDir) ? [sameDir] : candidates;
+}
+
+/**
+ * Discover every contract under contracts/ and pair it with a test.
+ * Contracts that cannot become examples (no test, no category) are reported
+ * in `warnings` instead of being dropped silently.
+ */
+export function discoverExamples(rootDir: string): DiscoveryResult {
+  const contractsDir = path.join(rootDir, "contracts");
+  const tests = walk(path.join(rootDir, "test"), ".ts").map((file) => toPosix(path.relative(rootDir, file)));
+
+  const examples: Record<string, DiscoveredExample> = {};
+  const warnings: string[] = [];
+
+  for (const file of walk(contractsDir, ".sol")) {
+    const contract = toPosix(path.relative(rootDir, file));
+    let header: SolidityContract | undefined;
+    try {
+      header = readContractHeader(file);
+    } catch (error) {
+      warnings.push(`${contract}: could not be parsed (${(error as Error).message})`);
+      continue;
+    }
+    if (!header) {
+      warnings.push(`${contract}: no deployable contract found`);
+      continue;
+    }
+
+    const matches = findTest(toPosix(path.relative(contractsDir, file)), header.name, tests);
+    if (matches.length === 0) {
+      warnings.push(`${contract}: no matching test found (expected test/**/${header.name}.ts)`);
+      continue;
+    }
+    if (matches.length > 1) {
+      warnings.push(`${contract}: several candidate tests found (${matches.join(", ")})`);
+      continue;
+    }
+
+    const category = header.natspec.custom.category;
+    if (!category) {
+      warnings.push(`${contract}: missing @custom:category tag`);
+      continue;
+    }
+
+    const name = toKebabCase(header.name);
+    if (examples[name]) {
+      warnings.push(`${contract}: example name "${name}" is already used by ${examples[name].contract}`);
+      continue;
+    }
+
+    examples[name] = {
+      title: header.natspec.title ? toTitleCase(header.natspec.title) : toTitleCase(header.name),
+      summary: header.natspec.dev,
+      description: header.natspec.notice ?? header.natspec.dev,
+      category,
+      contract,
+      test: matches[0],
+    };
+  }
+
+  return { examples, warnings };
+}
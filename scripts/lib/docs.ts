@@ -0,0 +1,422 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ExampleConfig, Registry, REPO_ROOT } from "./registry";
+import {
+  getMainContract,
+  isFheType,
+  parseSolidity,
+  SolidityContract,
+  SolidityFunction,
+  SolidityParameter,
+  SolidityRevert,
+} from "./solidity";
+import { renderExerciseVariant } from "./exercise";
+import { AccessControlMatrix, AccessGrant, analyzeAccessControl, RETURN_VALUE } from "./acl";
+import { extractTestSnippets, SnippetKind, stripRegionMarkers, TestSnippet } from "./snippets";
+
+/**
+ * Documentation Model
+ * The pages of individual examples and the index listing them, as blocks
+ * that scripts/lib/formats.ts renders as GitBook, CommonMark, Docusaurus or
+ * HTML. Each page carries an API reference built from the contract's NatSpec
+ * and function bodies, with the test snippets exercising each function, and
+ * an access-control matrix of its encrypted values.
+ *
+ * Text in blocks is inline Markdown: `code`, **bold**, *italic* and
+ * [links](page.md), where a link to `<example>.md` points at that example's page.
+ */
+
+export type DocBlock =
+  | { type: "heading"; level: number; text: string }
+  | { type: "paragraph"; text: string }
+  | { type: "list"; items: string[] }
+  | { type: "table"; header: string[]; rows: string[][] }
+  | { type: "code"; language: string; code: string }
+  | { type: "hint"; style: "info" | "warning"; blocks: DocBlock[] }
+  | { type: "tabs"; tabs: DocTab[] };
+
+export interface DocTab {
+  title: string;
+  blocks: DocBlock[];
+}
+
+export interface DocPage {
+  /** Example name, which formats turn into the page's file name */
+  name: string;
+  title: string;
+  description: string;
+  category: string;
+  /** Content below the title */
+  blocks: DocBlock[];
+}
+
+export interface DocIndexEntry {
+  name: string;
+  title: string;
+  description: string;
+  /** External and public functions of the contract with their NatSpec text; empty until the contract is written */
+  functions: Array<{ name: string; text: string }>;
+}
+
+export type RelatedExample = Pick<DocIndexEntry, "name" | "title" | "description">;
+
+export interface DocPageOptions {
+  /** Examples listed under Related Examples, see getRelatedExamples */
+  related?: RelatedExample[];
+  /** Add a tab with the whole contract source; the API reference covers its functions otherwise */
+  source?: boolean;
+}
+
+export interface DocIndex {
+  title: string;
+  /** Non-empty categories in registry order */
+  categories: Array<{ name: string; title: string; pages: DocIndexEntry[] }>;
+}
+
+const heading = (level: number, text: string): DocBlock => ({ type: "heading", level, text });
+const paragraph = (text: string): DocBlock => ({ type: "paragraph", text });
+const list = (items: string[]): DocBlock => ({ type: "list", items });
+
+/**
+ * How a value crosses the contract boundary: an encrypted input (a handle
+ * plus an input proof), an encrypted handle, or plaintext.
+ */
+function getEncryption(type: string): string {
+  if (!isFheType(type)) {
+    return "plaintext";
+  }
+  return type.startsWith("externalE") ? "encrypted input" : "encrypted handle";
+}
+
+function formatSignature(fn: SolidityFunction): string {
+  const parameters = fn.parameters.map((parameter) => `${parameter.type} ${parameter.name}`.trim()).join(", ");
+  const returns = fn.returns.map((parameter) => `${parameter.type} ${parameter.name}`.trim()).join(", ");
+  return [
+    `function ${fn.name}(${parameters})`,
+    fn.visibility,
+    fn.stateMutability,
+    ...fn.modifiers,
+    returns ? `returns (${returns})` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+type ParameterRow = SolidityParameter & { encryption: string; description: string };
+
+function parameterTable(heading: string, rows: ParameterRow[]): DocBlock {
+  return {
+    type: "table",
+    header: [heading, "Type", "Encryption", "Description"],
+    rows: rows.map(({ name, type, encryption, description }) => [
+      name ? `\`${name}\`` : "-",
+      `\`${type}\``,
+      encryption,
+      description,
+    ]),
+  };
+}
+
+function formatRevert(revert: SolidityRevert, modifier?: string): string {
+  const notes = [revert.kind === "error" ? "custom error" : "", modifier ? `from \`${modifier}\`` : ""].filter(Boolean);
+  const reason = revert.kind === "message" ? `\`"${revert.value}"\`` : `\`${revert.value}\``;
+  return notes.length > 0 ? `${reason} (${notes.join(", ")})` : reason;
+}
+
+const SNIPPET_GROUPS: [SnippetKind, string][] = [
+  ["region", "Snippets"],
+  ["correct", "Correct usage"],
+  ["pitfall", "Common pitfalls"],
+];
+
+/**
+ * Captioned test snippets under `level` headings: regions, then ✓ cases as
+ * correct usage and ✗ cases as common pitfalls.
+ */
+function snippetBlocks(snippets: TestSnippet[], level: number): DocBlock[] {
+  return SNIPPET_GROUPS.flatMap(([kind, title]) => {
+    const group = snippets.filter((snippet) => snippet.kind === kind);
+    if (group.length === 0) {
+      return [];
+    }
+    return [
+      heading(level, title),
+      ...group.flatMap((snippet): DocBlock[] => [
+        paragraph(`*${snippet.caption}*`),
+        { type: "code", language: "typescript", code: snippet.code },
+      ]),
+    ];
+  });
+}
+
+function functionReference(fn: SolidityFunction, contract: SolidityContract, snippets: TestSnippet[]): DocBlock[] {
+  const blocks = [heading(3, `\`${fn.name}\``)];
+  const { notice, dev, params, returns } = fn.natspec;
+  blocks.push(...[notice, dev].filter((text): text is string => Boolean(text)).map(paragraph));
+  blocks.push({ type: "code", language: "solidity", code: formatSignature(fn) });
+
+  const facts = [`**Visibility:** \`${fn.visibility}\``, `**Mutability:** \`${fn.stateMutability ?? "nonpayable"}\``];
+  if (fn.modifiers.length > 0) {
+    facts.push(`**Modifiers:** ${fn.modifiers.map((name) => `\`${name}\``).join(", ")}`);
+  }
+  if (fn.emits.length > 0) {
+    facts.push(`**Emits:** ${fn.emits.map((name) => `\`${name}\``).join(", ")}`);
+  }
+  blocks.push(list(facts));
+
+  if (fn.parameters.length > 0) {
+    // The `bytes` argument of a function taking encrypted inputs is their proof
+    const takesInputs = fn.parameters.some((parameter) => getEncryption(parameter.type) === "encrypted input");
+    blocks.push(
+      parameterTable(
+        "Parameter",
+        fn.parameters.map((parameter) => ({
+          ...parameter,
+          encryption: takesInputs && parameter.type === "bytes" ? "input proof" : getEncryption(parameter.type),
+          description: params[parameter.name] ?? "",
+        }))
+      )
+    );
+  }
+  if (fn.returns.length > 0) {
+    blocks.push(
+      parameterTable(
+        "Returns",
+        fn.returns.map((parameter, i) => {
+          // `@return name description` documents a named return value
+          const description = returns[i] ?? "";
+          const named = parameter.name && description.startsWith(`${parameter.name} `);
+          return {
+            ...parameter,
+            encryption: getEncryption(parameter.type),
+            description: named ? description.slice(parameter.name.length + 1) : description,
+          };
+        })
+      )
+    );
+  }
+
+  const reverts = [
+    ...fn.reverts.map((revert) => formatRevert(revert)),
+    ...fn.modifiers.flatMap((name) =>
+      (contract.modifiers.find((modifier) => modifier.name === name)?.reverts ?? []).map((revert) =>
+        formatRevert(revert, name)
+      )
+    ),
+  ];
+  if (reverts.length > 0) {
+    blocks.push(paragraph("**Reverts with:**"), list(reverts));
+  }
+
+  blocks.push(...snippetBlocks(snippets.filter((snippet) => snippet.function === fn.name), 4));
+  return blocks;
+}
+
+/**
+ * API reference of a contract's external and public functions, from their
+ * NatSpec (`@notice`, `@dev`, `@param`, `@return`) and bodies (revert
+ * messages and emitted events), each followed by the test snippets
+ * exercising it.
+ */
+export function apiReference(contract: SolidityContract, snippets: TestSnippet[] = []): DocBlock[] {
+  if (contract.functions.length === 0) {
+    return [heading(2, "API Reference"), paragraph("This contract has no external or public functions.")];
+  }
+  return [
+    heading(2, "API Reference"),
+    paragraph(
+      "Encrypted inputs are passed as an `externalE…` handle together with an input proof; encrypted handles " +
+        "can only be decrypted by accounts the contract has granted access to."
+    ),
+    ...contract.functions.flatMap((fn) => functionReference(fn, contract, snippets)),
+  ];
+}
+
+function describeAccess(grant: AccessGrant): string {
+  const accounts = [
+    ...grant.accounts.map((account) => (account === "msg.sender" ? "`msg.sender` (caller)" : `\`${account}\``)),
+    ...grant.transient.map((account) => `\`${account}\` (this transaction only)`),
+    ...(grant.public ? ["anyone (publicly decryptable)"] : []),
+  ];
+  return accounts.length > 0 ? accounts.join(", ") : "—";
+}
+
+/**
+ * Table of who can use each encrypted value after each function: the
+ * contract (`FHE.allowThis`) and the accounts that can decrypt it
+ * (`FHE.allow`). Grants are grouped by field, each row naming the value
+ * with its keys. Fields no function grants access to are listed too.
+ */
+export function accessControl(matrix: AccessControlMatrix): DocBlock[] {
+  if (matrix.fields.length === 0 && matrix.grants.length === 0) {
+    return [];
+  }
+
+  const fields = [
+    ...matrix.fields,
+    ...matrix.grants.map((grant) => grant.field).filter((field) => field !== RETURN_VALUE),
+    ...matrix.grants.map((grant) => grant.field).filter((field) => field === RETURN_VALUE),
+  ].filter((field, i, all) => all.indexOf(field) === i);
+  const rows: string[][] = [];
+  for (const field of fields) {
+    const label = (value: string) => (value === RETURN_VALUE ? "return value" : `\`${value}\``);
+    const grants = matrix.grants.filter((grant) => grant.field === field);
+    if (grants.length === 0) {
+      rows.push([label(field), "—", "—", "no function grants access"]);
+    }
+    for (const grant of grants) {
+      rows.push([label(grant.value), `\`${grant.function}\``, grant.contract ? "✓" : "—", describeAccess(grant)]);
+    }
+  }
+
+  return [
+    heading(2, "Access Control"),
+    paragraph(
+      "Who can use each encrypted value once a function has run, from its `FHE.allowThis` and `FHE.allow` calls. " +
+        "The contract needs `FHE.allowThis` to compute on a value in later transactions; " +
+        "the listed accounts can decrypt it."
+    ),
+    { type: "table", header: ["Encrypted value", "Function", "Contract", "Decryptable by"], rows },
+  ];
+}
+
+/**
+ * Examples related to `name`: those of its category, then those sharing a
+ * tag with it, in registry order. Only `exampleNames` (default: every
+ * example) are considered, so a page never links to one that is not
+ * generated with it.
+ */
+export function getRelatedExamples(
+  registry: Registry,
+  name: string,
+  exampleNames: string[] = Object.keys(registry.examples)
+): RelatedExample[] {
+  const config = registry.examples[name];
+  const others = exampleNames.filter((other) => other !== name && registry.examples[other]);
+  const sameCategory = others.filter((other) => registry.examples[other].category === config.category);
+  const sharedTags = others.filter(
+    (other) => !sameCategory.includes(other) && registry.examples[other].tags.some((tag) => config.tags.includes(tag))
+  );
+  return [...sameCategory, ...sharedTags].map((other) => ({
+    name: other,
+    title: registry.examples[other].title,
+    description: registry.examples[other].description,
+  }));
+}
+
+/**
+ * The documentation page of an example.
+ */
+export function buildDocPage(
+  name: string,
+  config: ExampleConfig,
+  contractCode: string,
+  testCode: string,
+  options: DocPageOptions = {}
+): DocPage {
+  const contractPath = path.join(REPO_ROOT, config.contract);
+  // Named from the code given rather than the file, which may not be written yet
+  const contract = getMainContract(parseSolidity(contractCode, contractPath));
+  const contractName = contract?.name ?? path.basename(config.contract, ".sol");
+  const testFileName = path.basename(config.test);
+  // Focused snippets replace the whole test file when the tests have any
+  const snippets = extractTestSnippets(testCode, path.join(REPO_ROOT, config.test), contract?.functions);
+  const unattributed = snippets.filter((snippet) => !snippet.function);
+  const related = options.related ?? [];
+
+  const tabs: DocTab[] = [];
+  if (options.source) {
+    // Pages show the complete contract, without exercise markers
+    const solutionCode = renderExerciseVariant(contractCode, contractPath, "solution");
+    tabs.push({ title: `${contractName}.sol`, blocks: [{ type: "code", language: "solidity", code: solutionCode }] });
+  }
+  if (snippets.length === 0) {
+    tabs.push({
+      title: testFileName,
+      blocks: [{ type: "code", language: "typescript", code: stripRegionMarkers(testCode) }],
+    });
+  }
+
+  const blocks: DocBlock[] = [paragraph(config.description)];
+  if (tabs.length > 0) {
+    blocks.push(
+      {
+        type: "hint",
+        style: "info",
+        blocks: [
+          paragraph("To run this example correctly, make sure the files are placed in the following directories:"),
+          list([
+            "`.sol` file → `<your-project-root-dir>/contracts/`",
+            "`.ts` file → `<your-project-root-dir>/test/`",
+          ]),
+          paragraph("This ensures Hardhat can compile and test your contracts as expected."),
+        ],
+      },
+      { type: "tabs", tabs }
+    );
+  }
+  blocks.push(
+    ...(contract ? apiReference(contract, snippets) : []),
+    ...(contract ? accessControl(analyzeAccessControl(contractCode, contract.name, contractPath)) : []),
+    ...(unattributed.length > 0 ? [heading(2, "Test Snippets"), ...snippetBlocks(unattributed, 3)] : []),
+    ...(related.length > 0
+      ? [heading(2, "Related Examples"), list(related.map((entry) => `[${entry.title}](./${entry.name}.md)`))]
+      : []),
+    heading(2, "License"),
+    paragraph("BSD-3-Clause-Clear"),
+    heading(2, "Support"),
+    paragraph("For detailed information about FHEVM development:"),
+    list([
+      "[Zama Official Documentation](https://docs.zama.ai)",
+      "[Zama Community Forum](https://www.zama.ai/community)",
+      "[GitHub Repository](https://github.com/zama-ai/fhevm-examples)",
+    ])
+  );
+
+  return { name, title: config.title, description: config.description, category: config.category, blocks };
+}
+
+/** The functions of an example's contract and their NatSpec text, for search */
+function getIndexedFunctions(config: ExampleConfig): DocIndexEntry["functions"] {
+  const contractPath = path.join(REPO_ROOT, config.contract);
+  if (!fs.existsSync(contractPath)) {
+    return [];
+  }
+  const contract = getMainContract(parseSolidity(fs.readFileSync(contractPath, "utf-8"), contractPath));
+  return (contract?.functions ?? []).map((fn) => {
+    const { notice, dev, params, returns } = fn.natspec;
+    const text = [notice, dev, ...Object.values(params), ...returns].filter(Boolean).join(" ");
+    return { name: fn.name, text };
+  });
+}
+
+/**
+ * Index of `exampleNames` (default: every example) grouped by category, in
+ * registry order. Empty categories are skipped.
+ */
+export function buildDocIndex(registry: Registry, exampleNames: string[] = Object.keys(registry.examples)): DocIndex {
+  const categories: Record<string, DocIndexEntry[]> = {};
+  for (const categoryName of Object.keys(registry.categories)) {
+    categories[categoryName] = [];
+  }
+
+  for (const exampleName of exampleNames) {
+    const config = registry.examples[exampleName];
+    if (!categories[config.category]) {
+      categories[config.category] = [];
+    }
+    categories[config.category].push({
+      name: exampleName,
+      title: config.title,
+      description: config.description,
+      functions: getIndexedFunctions(config),
+    });
+  }
+
+  return {
+    title: "FHEVM Examples Documentation",
+    categories: Object.entries(categories)
+      .filter(([, pages]) => pages.length > 0)
+      .map(([name, pages]) => ({ name, title: registry.categories[name]?.title ?? name, pages })),
+  };
+}
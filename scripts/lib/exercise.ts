@@ -0,0 +1,114 @@
+import * as path from "path";
+import { REPO_ROOT } from "./registry";
+
+/**
+ * Tutorial Exercises
+ * Contract code between `// @exercise-begin [hint]` and `// @exercise-end`
+ * comments is the part a learner writes. `--exercise` replaces each region
+ * with a TODO stub (the tests stay, so learners can check their work) and
+ * `--solution` keeps the code without the markers.
+ */
+
+export type ProjectVariant = "exercise" | "solution";
+
+export const PROJECT_VARIANTS: ProjectVariant[] = ["exercise", "solution"];
+
+const BEGIN_MARKER = /^(\s*)\/\/\s*@exercise-begin\b[ \t]*(.*?)\s*$/;
+const END_MARKER = /^\s*\/\/\s*@exercise-end\s*$/;
+const DEFAULT_HINT = "Implement this part of the exercise";
+
+export class ExerciseError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly line: number,
+    message: string
+  ) {
+    super(`${path.relative(REPO_ROOT, file)}:${line}: ${message}`);
+    this.name = "ExerciseError";
+  }
+}
+
+export interface ExerciseRegion {
+  /** 1-based lines of the begin and end markers */
+  begin: number;
+  end: number;
+  indent: string;
+  hint: string;
+}
+
+/**
+ * The exercise regions of a source file. Throws on nested, unclosed or
+ * unopened regions.
+ */
+export function findExerciseRegions(source: string, file: string): ExerciseRegion[] {
+  const regions: ExerciseRegion[] = [];
+  let open: Omit<ExerciseRegion, "end"> | undefined;
+
+  source.split("\n").forEach((line, i) => {
+    const begin = line.match(BEGIN_MARKER);
+    if (begin) {
+      if (open) {
+        throw new ExerciseError(file, i + 1, `@exercise-begin inside the region opened on line ${open.begin}`);
+      }
+      open = { begin: i + 1, indent: begin[1], hint: begin[2] || DEFAULT_HINT };
+    } else if (END_MARKER.test(line)) {
+      if (!open) {
+        throw new ExerciseError(file, i + 1, "@exercise-end without a matching @exercise-begin");
+      }
+      regions.push({ ...open, end: i + 1 });
+      open = undefined;
+    }
+  });
+  if (open) {
+    throw new ExerciseError(file, open.begin, "@exercise-begin is never closed by @exercise-end");
+  }
+
+  return regions;
+}
+
+export interface ExerciseTodo {
+  /** 1-based line of the TODO comment in the exercise version of the file */
+  line: number;
+  hint: string;
+}
+
+/**
+ * Where the TODO comments of a file's exercise version end up.
+ */
+export function getExerciseTodos(source: string, file: string): ExerciseTodo[] {
+  let removedLines = 0;
+  return findExerciseRegions(source, file).map((region) => {
+    const todo = { line: region.begin - removedLines, hint: region.hint };
+    removedLines += region.end - region.begin;
+    return todo;
+  });
+}
+
+/**
+ * Render a source file as an exercise or a solution: exercise regions become
+ * a TODO comment, or keep their code without the marker lines. Line endings
+ * are preserved.
+ */
+export function renderExerciseVariant(source: string, file: string, variant: ProjectVariant): string {
+  const regions = findExerciseRegions(source, file);
+  if (regions.length === 0) {
+    return source;
+  }
+
+  const eol = source.includes("\r\n") ? "\r" : "";
+  const lines = source.split("\n");
+  const output: string[] = [];
+  let lineNumber = 0;
+  for (const region of regions) {
+    output.push(...lines.slice(lineNumber, region.begin - 1));
+    if (variant === "exercise") {
+      output.push(`${region.indent}// TODO: ${region.hint}${eol}`);
+    } else {
+      output.push(...lines.slice(region.begin, region.end - 1));
+    }
+    lineNumber = region.end;
+  }
+  output.push(...lines.slice(lineNumber));
+
+  return output.join("\n");
+}
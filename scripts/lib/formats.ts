@@ -0,0 +1,380 @@
+import { ExampleConfig, Registry } from "./registry";
+import { buildDocIndex, buildDocPage, DocBlock, DocIndex, DocPage, DocPageOptions } from "./docs";
+import { escapeTableCell } from "./readme";
+import { renderTemplate } from "./templating";
+
+/**
+ * Documentation Formats
+ * Renderers turning the documentation model (docs.ts) into files, selected
+ * with `generate-docs --format`:
+ *
+ *   gitbook     GitBook Markdown with {% hint %} and {% tabs %} blocks, SUMMARY.md
+ *   commonmark  CommonMark without proprietary tags, README.md index (alias: markdown)
+ *   docusaurus  Docusaurus MDX with admonitions and <Tabs>, sidebars.js
+ *   html        Self-contained static site with navigation and search over
+ *               titles, descriptions, function names and NatSpec
+ *
+ * The HTML shell, styles and scripts and the Docusaurus sidebar are
+ * templates in scripts/templates/docs/.
+ */
+
+export interface DocFormat {
+  name: string;
+  description: string;
+  /** Where generate-docs writes by default, relative to the repository root */
+  outputDir: string;
+  /** File of an example's page, relative to the output directory */
+  getPageFile(exampleName: string): string;
+  renderPage(page: DocPage, index: DocIndex): string;
+  /** Files describing the whole site (index, sidebar, assets) by path relative to the output directory */
+  renderIndex(index: DocIndex): Record<string, string>;
+}
+
+export function getDocFileName(exampleName: string): string {
+  return `${exampleName}.md`;
+}
+
+/** Point `./<example>.md` links at the page files of a format */
+function rewritePageLinks(text: string, getPageFile: (exampleName: string) => string): string {
+  return text.replace(/\]\(\.\/([a-z0-9-]+)\.md\)/g, (_, exampleName: string) => `](./${getPageFile(exampleName)})`);
+}
+
+/** Apply `transform` to the parts of inline Markdown outside code spans */
+function outsideCodeSpans(text: string, transform: (part: string) => string): string {
+  return text
+    .split(/(`[^`]*`)/)
+    .map((part, i) => (i % 2 === 1 ? part : transform(part)))
+    .join("");
+}
+
+/**
+ * How a Markdown dialect writes inline text and the blocks CommonMark has no
+ * syntax for.
+ */
+interface MarkdownDialect {
+  text(text: string): string;
+  hint(style: "info" | "warning", body: string): string;
+  tabs(tabs: Array<{ title: string; body: string }>): string;
+}
+
+function renderMarkdownBlocks(blocks: DocBlock[], dialect: MarkdownDialect): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return `${"#".repeat(block.level)} ${dialect.text(block.text)}`;
+        case "paragraph":
+          return dialect.text(block.text);
+        case "list":
+          return block.items.map((item) => `- ${dialect.text(item)}`).join("\n");
+        case "table": {
+          const row = (cells: string[]) =>
+            `| ${cells.map((cell) => escapeTableCell(dialect.text(cell))).join(" | ")} |`;
+          const separator = `| ${block.header.map(() => "---").join(" | ")} |`;
+          return [row(block.header), separator, ...block.rows.map(row)].join("\n");
+        }
+        case "code":
+          return `\`\`\`${block.language}\n${block.code}\n\`\`\``;
+        case "hint":
+          return dialect.hint(block.style, renderMarkdownBlocks(block.blocks, dialect));
+        case "tabs":
+          return dialect.tabs(
+            block.tabs.map((tab) => ({ title: tab.title, body: renderMarkdownBlocks(tab.blocks, dialect) }))
+          );
+      }
+    })
+    .join("\n\n");
+}
+
+const GITBOOK_DIALECT: MarkdownDialect = {
+  text: (text) => text,
+  hint: (style, body) => `{% hint style="${style}" %}\n${body}\n{% endhint %}`,
+  tabs: (tabs) =>
+    [
+      "{% tabs %}",
+      tabs.map((tab) => `{% tab title="${tab.title}" %}\n${tab.body}\n{% endtab %}`).join("\n\n"),
+      "{% endtabs %}",
+    ].join("\n"),
+};
+
+const COMMONMARK_DIALECT: MarkdownDialect = {
+  text: (text) => text,
+  hint: (style, body) =>
+    [`**${style === "info" ? "Note" : "Warning"}**`, "", ...body.split("\n")]
+      .map((line) => (line ? `> ${line}` : ">"))
+      .join("\n"),
+  tabs: (tabs) => tabs.map((tab) => `**${tab.title}**\n\n${tab.body}`).join("\n\n"),
+};
+
+const MDX_DIALECT: MarkdownDialect = {
+  // Braces and angle brackets start JSX in MDX
+  text: (text) =>
+    rewritePageLinks(
+      outsideCodeSpans(text, (part) =>
+        part.replace(/[{}<>]/g, (char) => ({ "{": "&#123;", "}": "&#125;", "<": "&lt;", ">": "&gt;" })[char]!)
+      ),
+      (exampleName) => `${exampleName}.mdx`
+    ),
+  hint: (style, body) => `:::${style}\n\n${body}\n\n:::`,
+  tabs: (tabs) =>
+    [
+      "<Tabs>",
+      ...tabs.map((tab) => {
+        const title = JSON.stringify(tab.title);
+        return `<TabItem value=${title} label=${title}>\n\n${tab.body}\n\n</TabItem>`;
+      }),
+      "</Tabs>",
+    ].join("\n"),
+};
+
+function hasTabs(blocks: DocBlock[]): boolean {
+  return blocks.some((block) => block.type === "tabs" || (block.type === "hint" && hasTabs(block.blocks)));
+}
+
+export const GITBOOK_FORMAT: DocFormat = {
+  name: "gitbook",
+  description: "GitBook Markdown with SUMMARY.md",
+  outputDir: "docs",
+  getPageFile: getDocFileName,
+  renderPage: (page) => `# ${page.title}\n\n${renderMarkdownBlocks(page.blocks, GITBOOK_DIALECT)}\n`,
+  renderIndex: (index) => ({
+    "SUMMARY.md": `${[
+      `# ${index.title}`,
+      ...index.categories.map(
+        (category) =>
+          `## ${category.title}\n\n${category.pages
+            .map((page) => `- [${page.title}](${getDocFileName(page.name)})`)
+            .join("\n")}`
+      ),
+    ].join("\n\n")}\n\n`,
+  }),
+};
+
+export const COMMONMARK_FORMAT: DocFormat = {
+  name: "commonmark",
+  description: "CommonMark without GitBook tags, with a README.md index",
+  outputDir: "docs-commonmark",
+  getPageFile: getDocFileName,
+  renderPage: (page) => `# ${page.title}\n\n${renderMarkdownBlocks(page.blocks, COMMONMARK_DIALECT)}\n`,
+  renderIndex: (index) => ({
+    "README.md": `${[
+      `# ${index.title}`,
+      ...index.categories.map(
+        (category) =>
+          `## ${category.title}\n\n${category.pages
+            .map((page) => `- [${page.title}](${getDocFileName(page.name)}): ${page.description}`)
+            .join("\n")}`
+      ),
+    ].join("\n\n")}\n`,
+  }),
+};
+
+export const DOCUSAURUS_FORMAT: DocFormat = {
+  name: "docusaurus",
+  description: "Docusaurus MDX pages with sidebars.js",
+  outputDir: "docs-docusaurus",
+  getPageFile: (exampleName) => `${exampleName}.mdx`,
+  renderPage: (page) => {
+    // The front matter title is the page heading
+    const frontMatter = [
+      "---",
+      `id: ${page.name}`,
+      `title: ${JSON.stringify(page.title)}`,
+      `sidebar_label: ${JSON.stringify(page.title)}`,
+      `description: ${JSON.stringify(page.description)}`,
+      "---",
+    ].join("\n");
+    const imports = hasTabs(page.blocks)
+      ? ['import Tabs from "@theme/Tabs";\nimport TabItem from "@theme/TabItem";']
+      : [];
+    return `${[frontMatter, ...imports, renderMarkdownBlocks(page.blocks, MDX_DIALECT)].join("\n\n")}\n`;
+  },
+  renderIndex: (index) => ({
+    "sidebars.js": renderTemplate("docs/docusaurus/sidebars.js.tpl", {
+      categories: index.categories.map((category) => ({
+        label: JSON.stringify(category.title),
+        items: category.pages.map((page) => JSON.stringify(page.name)).join(", "),
+      })),
+    }),
+  }),
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[char]!);
+}
+
+function getHtmlPageFile(exampleName: string): string {
+  return `${exampleName}.html`;
+}
+
+function renderInlineHtml(text: string): string {
+  return text
+    .split(/(`[^`]*`)/)
+    .map((part, i) =>
+      i % 2 === 1
+        ? `<code>${escapeHtml(part.slice(1, -1))}</code>`
+        : escapeHtml(rewritePageLinks(part, getHtmlPageFile))
+            .replace(/\*\*(.+?)\*\*/g, "<strong>$1</strong>")
+            .replace(/\*(.+?)\*/g, "<em>$1</em>")
+            .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>')
+    )
+    .join("");
+}
+
+/** Heading anchor, made unique within the page with a numeric suffix */
+function getHeadingId(text: string, ids: Set<string>): string {
+  const base =
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "section";
+  let id = base;
+  for (let i = 2; ids.has(id); i++) {
+    id = `${base}-${i}`;
+  }
+  ids.add(id);
+  return id;
+}
+
+function renderHtmlBlocks(blocks: DocBlock[], ids: Set<string>): string {
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading": {
+          const id = getHeadingId(block.text, ids);
+          return `<h${block.level} id="${id}">${renderInlineHtml(block.text)}</h${block.level}>`;
+        }
+        case "paragraph":
+          return `<p>${renderInlineHtml(block.text)}</p>`;
+        case "list":
+          return `<ul>\n${block.items.map((item) => `  <li>${renderInlineHtml(item)}</li>`).join("\n")}\n</ul>`;
+        case "table": {
+          const row = (cells: string[], tag: string) =>
+            `<tr>${cells.map((cell) => `<${tag}>${renderInlineHtml(cell)}</${tag}>`).join("")}</tr>`;
+          return [
+            "<table>",
+            `<thead>${row(block.header, "th")}</thead>`,
+            "<tbody>",
+            ...block.rows.map((cells) => row(cells, "td")),
+            "</tbody>",
+            "</table>",
+          ].join("\n");
+        }
+        case "code": {
+          const code = escapeHtml(block.code.replace(/\r/g, ""));
+          return `<pre><code class="language-${block.language}">${code}</code></pre>`;
+        }
+        case "hint":
+          return `<div class="hint hint-${block.style}">\n${renderHtmlBlocks(block.blocks, ids)}\n</div>`;
+        case "tabs":
+          return [
+            '<div class="tabs">',
+            `<div class="tab-list" role="tablist">${block.tabs
+              .map((tab) => `<button type="button" role="tab">${escapeHtml(tab.title)}</button>`)
+              .join("")}</div>`,
+            ...block.tabs.map(
+              (tab) => `<section class="tab-panel" role="tabpanel">\n${renderHtmlBlocks(tab.blocks, ids)}\n</section>`
+            ),
+            "</div>",
+          ].join("\n");
+      }
+    })
+    .join("\n");
+}
+
+function renderHtmlShell(index: DocIndex, title: string, content: string, current?: string): string {
+  return renderTemplate("docs/html/page.html.tpl", {
+    title: escapeHtml(title === index.title ? title : `${title} · ${index.title}`),
+    siteTitle: escapeHtml(index.title),
+    categories: index.categories.map((category) => ({
+      title: escapeHtml(category.title),
+      pages: category.pages.map((page) => ({
+        href: getHtmlPageFile(page.name),
+        title: escapeHtml(page.title),
+        current: page.name === current,
+      })),
+    })),
+    content,
+  });
+}
+
+export const HTML_FORMAT: DocFormat = {
+  name: "html",
+  description: "Self-contained static HTML site with search over functions and NatSpec",
+  outputDir: "docs-html",
+  getPageFile: getHtmlPageFile,
+  renderPage: (page, index) =>
+    renderHtmlShell(
+      index,
+      page.title,
+      `<h1>${escapeHtml(page.title)}</h1>\n${renderHtmlBlocks(page.blocks, new Set())}`,
+      page.name
+    ),
+  renderIndex: (index) => {
+    const listing = index.categories.map((category) =>
+      [
+        `<h2>${escapeHtml(category.title)}</h2>`,
+        '<ul class="cards">',
+        ...category.pages.map(
+          (page) =>
+            `  <li><a href="${getHtmlPageFile(page.name)}">${escapeHtml(page.title)}</a>` +
+            `<p>${escapeHtml(page.description)}</p></li>`
+        ),
+        "</ul>",
+      ].join("\n")
+    );
+    const searchIndex = index.categories.flatMap((category) =>
+      category.pages.map((page) => ({
+        title: page.title,
+        description: page.description,
+        category: category.title,
+        href: getHtmlPageFile(page.name),
+        functions: page.functions,
+      }))
+    );
+    return {
+      "index.html": renderHtmlShell(index, index.title, [`<h1>${escapeHtml(index.title)}</h1>`, ...listing].join("\n")),
+      "assets/style.css": renderTemplate("docs/html/style.css.tpl", {}),
+      "assets/site.js": renderTemplate("docs/html/site.js.tpl", {}),
+      "assets/search-index.js": `window.DOCS_SEARCH_INDEX = ${JSON.stringify(searchIndex, null, 2)};\n`,
+    };
+  },
+};
+
+export const DOC_FORMATS = new Map<string, DocFormat>(
+  [GITBOOK_FORMAT, COMMONMARK_FORMAT, DOCUSAURUS_FORMAT, HTML_FORMAT].map((format) => [format.name, format])
+);
+
+/** Other names accepted by `--format` */
+export const DOC_FORMAT_ALIASES = new Map<string, string>([["markdown", COMMONMARK_FORMAT.name]]);
+
+/**
+ * The format registered as `name` or one of its aliases.
+ */
+export function getDocFormat(name: string): DocFormat | undefined {
+  return DOC_FORMATS.get(DOC_FORMAT_ALIASES.get(name) ?? name);
+}
+
+/**
+ * An example's GitBook page, as written by generate-docs and into generated
+ * projects.
+ */
+export function generateGitBookMarkdown(
+  exampleName: string,
+  config: ExampleConfig,
+  contractCode: string,
+  testCode: string,
+  options: DocPageOptions = {}
+): string {
+  const page = buildDocPage(exampleName, config, contractCode, testCode, options);
+  // GitBook pages do not link to the rest of the site, so the index is not needed
+  return GITBOOK_FORMAT.renderPage(page, { title: "", categories: [] });
+}
+
+/**
+ * GitBook SUMMARY.md listing `exampleNames` (default: every example) grouped
+ * by category, in registry order. Empty categories are skipped.
+ */
+export function renderSummary(registry: Registry, exampleNames: string[] = Object.keys(registry.examples)): string {
+  return GITBOOK_FORMAT.renderIndex(buildDocIndex(registry, exampleNames))["SUMMARY.md"];
+}
@@ -0,0 +1,184 @@
+import { DeployKind } from "./templates";
+import { DEPLOYMENT_MANIFEST_FILE, ENCRYPTED_INPUT_METHODS, EncryptedInputType } from "./deploy";
+import { isFheType, SolidityContract, SolidityFunction, SolidityParameter } from "./solidity";
+import { createTemplateLoader, renderTemplate, TemplateLoader } from "./templating";
+
+/**
+ * Frontend Starter
+ * A Vite + TypeScript web client written to frontend/ with --frontend: it
+ * connects a wallet, calls every external function of the project's
+ * contracts, encrypts `externalE*` arguments with the Relayer SDK and
+ * user-decrypts the handles returned by view functions. Each contract gets a
+ * module with its ABI and function descriptors, derived from the Solidity
+ * AST model; everything else comes from scripts/templates/frontend/.
+ */
+
+export const FRONTEND_DIR = "frontend";
+
+// The only network with a relayer: a local Hardhat node has just the mock used by the tests
+export const FRONTEND_NETWORK = "sepolia";
+
+export interface FrontendContract {
+  exampleName: string;
+  title: string;
+  contract: SolidityContract;
+}
+
+export interface FrontendFiles {
+  /** Contents by path relative to the project */
+  files: Record<string, string>;
+  /** Functions left out because the AST model cannot describe their ABI */
+  warnings: string[];
+}
+
+// Files of the starter that do not depend on the contracts' ABI
+const APP_TEMPLATES = [
+  "package.json",
+  "tsconfig.json",
+  "index.html",
+  "README.md",
+  "sync-addresses.mjs",
+  "src/main.ts",
+  "src/fhevm.ts",
+  "src/types.ts",
+  "src/vite-env.d.ts",
+  "src/contracts/index.ts",
+];
+
+const ELEMENTARY_TYPE_PATTERN = /^(?:address|bool|string|bytes\d*|u?int\d*)$/;
+
+/**
+ * ABI type of a Solidity parameter type: encrypted types are passed as
+ * bytes32 handles. Returns null for user-defined types (structs, enums,
+ * contracts), which the AST model does not resolve.
+ */
+export function toAbiType(type: string): string | null {
+  const array = /^(.+)(\[\d*\])$/.exec(type);
+  if (array) {
+    const base = toAbiType(array[1]);
+    return base && `${base}${array[2]}`;
+  }
+  if (isFheType(type)) {
+    return "bytes32";
+  }
+  if (type === "address payable") {
+    return "address";
+  }
+  return ELEMENTARY_TYPE_PATTERN.test(type) ? type : null;
+}
+
+function toEnvName(contractName: string): string {
+  return `VITE_${contractName.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase()}_ADDRESS`;
+}
+
+function getInputs(fn: SolidityFunction): Array<{ name: string; type: string; kind: string; method: string | null }> {
+  let afterEncrypted = false;
+  return fn.parameters.map((parameter, i) => {
+    const name = parameter.name || `arg${i}`;
+    if (parameter.type.startsWith("externalE")) {
+      afterEncrypted = true;
+      const method = ENCRYPTED_INPUT_METHODS[parameter.type.slice("externalE".length) as EncryptedInputType];
+      return { name, type: parameter.type, kind: "encrypted", method };
+    }
+    if (afterEncrypted && parameter.type === "bytes") {
+      // The input proof shared by the encrypted arguments before it
+      afterEncrypted = false;
+      return { name, type: parameter.type, kind: "proof", method: null };
+    }
+    return { name, type: parameter.type, kind: "plain", method: null };
+  });
+}
+
+function renderFragment(fn: SolidityFunction): string {
+  const list = (parameters: SolidityParameter[]) =>
+    parameters.map((parameter) => [toAbiType(parameter.type), parameter.name].filter(Boolean).join(" ")).join(", ");
+  const mutability = fn.stateMutability && fn.stateMutability !== "nonpayable" ? ` ${fn.stateMutability}` : "";
+  const returns = fn.returns.length > 0 ? ` returns (${list(fn.returns)})` : "";
+  return `function ${fn.name}(${list(fn.parameters)})${mutability}${returns}`;
+}
+
+function getFunctionContext(fn: SolidityFunction): Record<string, unknown> {
+  return {
+    name: fn.name,
+    fragment: renderFragment(fn),
+    signature: `${fn.name}(${fn.parameters.map((parameter) => toAbiType(parameter.type)).join(",")})`,
+    mutability: fn.stateMutability ?? "nonpayable",
+    description: JSON.stringify(fn.natspec.notice ?? fn.natspec.dev ?? ""),
+    inputs: getInputs(fn),
+    outputs: fn.returns.map((parameter, i) => ({
+      name: parameter.name || `result${i}`,
+      type: parameter.type,
+      encrypted: isFheType(parameter.type),
+    })),
+  };
+}
+
+/**
+ * Render the frontend starter for `contracts`, in deployment order. Addresses
+ * are read from the deployment files `deployKind` produces on Sepolia, whatever
+ * the project's own `network`.
+ */
+export function renderFrontend(
+  projectName: string,
+  title: string,
+  contracts: FrontendContract[],
+  network: string,
+  deployKind: DeployKind,
+  loader: TemplateLoader = createTemplateLoader()
+): FrontendFiles {
+  const result: FrontendFiles = { files: {}, warnings: [] };
+  if (network !== FRONTEND_NETWORK) {
+    result.warnings.push(
+      "Frontend: the Relayer SDK only serves Sepolia, so the app reads the addresses of " +
+        `npm run deploy:${FRONTEND_NETWORK}, not of npm run deploy (${network})`
+    );
+  }
+
+  const entries = contracts.map(({ exampleName, title: exampleTitle, contract }) => {
+    const functions = contract.functions.filter((fn) => {
+      const unsupported = [...fn.parameters, ...fn.returns].find((parameter) => !toAbiType(parameter.type));
+      if (unsupported) {
+        result.warnings.push(
+          `Frontend: ${contract.name}.${fn.name} left out (type ${unsupported.type} needs a hand-written ABI entry)`
+        );
+      }
+      return !unsupported;
+    });
+    return {
+      exampleName,
+      title: exampleTitle,
+      contractName: contract.name,
+      env: toEnvName(contract.name),
+      functions: functions.map(getFunctionContext),
+    };
+  });
+
+  const deployments = { "hardhat-deploy": "hardhat-deploy", scripts: "manifest", none: null }[deployKind];
+  const context = {
+    projectName,
+    title,
+    deployed: deployments !== null,
+    contracts: entries,
+    contractList: entries.map((entry) => entry.contractName),
+  };
+
+  for (const name of APP_TEMPLATES) {
+    result.files[`${FRONTEND_DIR}/${name}`] = renderTemplate(`frontend/${name}.tpl`, context, loader);
+  }
+  for (const entry of entries) {
+    result.files[`${FRONTEND_DIR}/src/contracts/${entry.contractName}.ts`] = renderTemplate(
+      "frontend/src/contracts/contract.ts.tpl",
+      entry,
+      loader
+    );
+  }
+  const config = {
+    network: FRONTEND_NETWORK,
+    deployments,
+    manifest: DEPLOYMENT_MANIFEST_FILE,
+    contracts: entries.map((entry) => ({ example: entry.exampleName, name: entry.contractName, env: entry.env })),
+  };
+  result.files[`${FRONTEND_DIR}/contracts.json`] = `${JSON.stringify(config, null, 2)}\n`;
+
+  return result;
+}
@@ -0,0 +1,113 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseSolidityFile } from "./solidity";
+
+/**
+ * Solidity Import Graph
+ * Resolves the transitive imports of a contract so a standalone project can
+ * be generated with every local dependency, and lists the npm packages the
+ * sources import from (e.g. @fhevm/solidity, @openzeppelin/contracts).
+ */
+
+export interface ImportGraph {
+  entry: string;
+  localFiles: string[];
+  packages: Record<string, string[]>;
+  missing: string[];
+}
+
+/**
+ * "@scope/pkg/path/File.sol" → "@scope/pkg", "pkg/path/File.sol" → "pkg".
+ */
+export function getPackageName(importPath: string): string {
+  const segments = importPath.split("/");
+  return importPath.startsWith("@") ? segments.slice(0, 2).join("/") : segments[0];
+}
+
+function resolveLocalImport(importPath: string, fromFile: string, rootDir: string): string | null {
+  if (importPath.startsWith("./") || importPath.startsWith("../")) {
+    return path.resolve(path.dirname(fromFile), importPath);
+  }
+  // Hardhat also resolves non-relative paths against the project root
+  const projectPath = path.join(rootDir, importPath);
+  return fs.existsSync(projectPath) ? projectPath : null;
+}
+
+export function resolveImportGraph(entryFile: string, rootDir: string): ImportGraph {
+  const graph: ImportGraph = {
+    entry: path.resolve(entryFile),
+    localFiles: [],
+    packages: {},
+    missing: [],
+  };
+
+  const queue = [graph.entry];
+  const visited = new Set<string>();
+
+  while (queue.length > 0) {
+    const file = queue.shift() as string;
+    if (visited.has(file)) {
+      continue;
+    }
+    visited.add(file);
+
+    if (!fs.existsSync(file)) {
+      graph.missing.push(path.relative(rootDir, file));
+      continue;
+    }
+    graph.localFiles.push(file);
+
+    for (const { path: importPath } of parseSolidityFile(file).imports) {
+      const localPath = resolveLocalImport(importPath, file, rootDir);
+      if (localPath) {
+        queue.push(localPath);
+      } else {
+        const packageName = getPackageName(importPath);
+        const imports = (graph.packages[packageName] = graph.packages[packageName] || []);
+        if (!imports.includes(importPath)) {
+          imports.push(importPath);
+        }
+      }
+    }
+  }
+
+  return graph;
+}
+
+function readDependencies(packageJsonPath: string): Record<string, string> {
+  if (!fs.existsSync(packageJsonPath)) {
+    return {};
+  }
+  const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
+  return { ...packageJson.devDependencies, ...packageJson.dependencies };
+}
+
+/**
+ * Pick a version range for each package: the template's pin (from
+ * `templateDeps`) wins, then the repository's own package.json, then the
+ * version installed in node_modules. Packages that cannot be resolved are
+ * returned in `unresolved`.
+ */
+export function resolvePackageVersions(
+  packages: string[],
+  templateDeps: Record<string, string>,
+  rootDir: string
+): { versions: Record<string, string>; unresolved: string[] } {
+  const rootDeps = readDependencies(path.join(rootDir, "package.json"));
+
+  const versions: Record<string, string> = {};
+  const unresolved: string[] = [];
+
+  for (const packageName of packages) {
+    const installed = path.join(rootDir, "node_modules", packageName, "package.json");
+    if (templateDeps[packageName] || rootDeps[packageName]) {
+      versions[packageName] = templateDeps[packageName] || rootDeps[packageName];
+    } else if (fs.existsSync(installed)) {
+      versions[packageName] = `^${JSON.parse(fs.readFileSync(installed, "utf-8")).version}`;
+    } else {
+      unresolved.push(packageName);
+    }
+  }
+
+  return { versions, unresolved };
+}
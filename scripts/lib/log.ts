@@ -0,0 +1,26 @@
+/**
+ * Console Output
+ * Color-coded logging shared by the automation scripts.
+ */
+
+export interface Colors {
+  reset: string;
+  green: string;
+  cyan: string;
+  yellow: string;
+  blue: string;
+  red: string;
+}
+
+export const colors: Colors = {
+  reset: "\x1b[0m",
+  green: "\x1b[32m",
+  cyan: "\x1b[36m",
+  yellow: "\x1b[33m",
+  blue: "\x1b[34m",
+  red: "\x1b[31m",
+};
+
+export function log(message: string, color: keyof Colors = "reset"): void {
+  console.log(`${colors[color]}${message}${colors.reset}`);
+}
@@ -0,0 +1,87 @@
+import { spawnSync } from "child_process";
+import * as crypto from "crypto";
+import { REPO_ROOT } from "./registry";
+import { ProjectOptions, ProjectPlan, readPlannedFile } from "./project";
+
+/**
+ * Generation Manifests
+ * Every generated project records how it was made in .fhevm/: manifest.json
+ * holds the options, the template, the commit of this repository and a hash
+ * of each generated file, and base/ keeps each file as it was generated.
+ * `create-fhevm-example upgrade` compares them with the project to tell the
+ * user's edits from generator changes.
+ */
+
+export const GENERATION_DIR = ".fhevm";
+
+export const GENERATION_MANIFEST_FILE = `${GENERATION_DIR}/manifest.json`;
+
+export interface SourceRevision {
+  /** Commit of this repository the output was generated from, null outside a git checkout */
+  commit: string | null;
+  /** Whether the checkout had uncommitted changes */
+  dirty: boolean;
+}
+
+export interface GenerationManifest {
+  generatedAt: string;
+  source: SourceRevision;
+  /** Template variant */
+  template: string;
+  /** Options the project was generated with; `upgrade` replays them */
+  options: ProjectOptions;
+  /** POSIX path relative to the project → SHA-256 of the generated content */
+  files: Record<string, string>;
+}
+
+function git(args: string[]): string | null {
+  const result = spawnSync("git", args, { cwd: REPO_ROOT, encoding: "utf-8" });
+  return result.status === 0 && !result.error ? result.stdout.trim() : null;
+}
+
+export function getSourceRevision(): SourceRevision {
+  const commit = git(["rev-parse", "HEAD"]);
+  return { commit, dirty: commit !== null && Boolean(git(["status", "--porcelain"])) };
+}
+
+export function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Where the generated version of a project file is kept.
+ */
+export function getBaseCopyPath(file: string): string {
+  return `${GENERATION_DIR}/base/${file}`;
+}
+
+export function isGenerationFile(file: string): boolean {
+  return file.startsWith(`${GENERATION_DIR}/`);
+}
+
+/**
+ * Add the generation manifest and a base copy of every planned file to a
+ * plan, so they are written with the project.
+ */
+export function addGenerationManifest(
+  plan: ProjectPlan,
+  options: ProjectOptions,
+  source: SourceRevision = getSourceRevision()
+): GenerationManifest {
+  // Only the options that shape the files; callers may pass a whole project config
+  const { examples, category, network, extras, template, fhevmVersion, variant } = options;
+  const manifest: GenerationManifest = {
+    generatedAt: new Date().toISOString(),
+    source,
+    template: plan.template,
+    options: { examples, category, network, extras, template, fhevmVersion, variant },
+    files: {},
+  };
+  for (const [file, planned] of [...plan.files].filter(([name]) => !isGenerationFile(name))) {
+    const content = readPlannedFile(planned);
+    manifest.files[file] = hashContent(content);
+    plan.files.set(getBaseCopyPath(file), { content });
+  }
+  plan.files.set(GENERATION_MANIFEST_FILE, { content: `${JSON.stringify(manifest, null, 2)}\n` });
+  return manifest;
+}
@@ -0,0 +1,766 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ExampleConfig, getCategoryExamples, Registry, REPO_ROOT } from "./registry";
+import { log } from "./log";
+import { loadMainContract, SolidityContract } from "./solidity";
+import { resolveImportGraph, resolvePackageVersions } from "./imports";
+import { getContractLayout, listProjectFiles, mergePackageDependencies, PackageJson } from "./scaffold";
+import {
+  DeployConfig,
+  DeployTarget,
+  getAddressReferences,
+  getDeployFileName,
+  getDeployOrder,
+  mergeDeployConfigs,
+  DEPLOY_SCRIPT_FILE,
+  renderDeployFunction,
+  renderDeploymentManifest,
+  renderDeployScript,
+} from "./deploy";
+import {
+  DEFAULT_TEMPLATE,
+  DeployKind,
+  loadTemplate,
+  matchesAny,
+  mergeJson,
+  PACKAGE_JSON_FILE,
+  runTemplateHooks,
+  TemplateVariables,
+} from "./templates";
+import { ReadmeEntry, renderProjectReadme } from "./readme";
+import { createTemplateLoader, getTemplateScopes, renderTemplate, renderTemplateSource } from "./templating";
+import { renderFrontend } from "./frontend";
+import { getRelatedExamples } from "./docs";
+import { generateGitBookMarkdown, getDocFileName, renderSummary } from "./formats";
+import { unifiedDiff } from "./diff";
+import { COMPATIBILITY_PACKAGES, resolveFhevmVersions } from "./versions";
+import { ExerciseTodo, findExerciseRegions, getExerciseTodos, ProjectVariant, renderExerciseVariant } from "./exercise";
+import { reportVerification, verifyProject, VerifyOptions } from "./verify";
+import { addGenerationManifest } from "./manifest";
+
+/**
+ * Project Plans
+ * A generated project is first assembled in memory as a map of files, so the
+ * CLIs and the interactive wizard can preview the file tree before writing,
+ * and every entry point (arguments, wizard, --yes, --config) produces the
+ * same output for the same options.
+ */
+
+export type NetworkTarget = "localhost" | "sepolia";
+
+export const NETWORK_TARGETS: NetworkTarget[] = ["localhost", "sepolia"];
+
+export interface ProjectExtras {
+  /** Frontend starter app calling the contracts (frontend/) */
+  frontend: boolean;
+  /** GitHub Actions workflow compiling and testing the project */
+  ci: boolean;
+  /** GitBook pages for the included examples */
+  docs: boolean;
+}
+
+export interface ProjectOptions {
+  /** Examples to include; ignored when `category` is set */
+  examples: string[];
+  /** Include every example of a category */
+  category?: string;
+  /** Network `npm run deploy` targets */
+  network: NetworkTarget;
+  extras: ProjectExtras;
+  /** Template variant (default: hardhat) */
+  template?: string;
+  /** @fhevm/solidity version to pin instead of the template's (must suit every example) */
+  fhevmVersion?: string;
+  /** Generate the tutorial exercise version of the contracts, or its solution */
+  variant?: ProjectVariant;
+}
+
+export interface PlannedFile {
+  /** Absolute path of a file copied verbatim */
+  source?: string;
+  /** Generated content */
+  content?: string;
+  /** Project-wide file (template, package.json, README...) that --merge keeps when present */
+  shared?: boolean;
+}
+
+export interface ProjectPlan {
+  /** package.json name */
+  name: string;
+  title: string;
+  description: string;
+  /** Template variant the project is generated from */
+  template: string;
+  /** Template commands to run in the project once it is written */
+  hooks: string[];
+  /** Example name → contract name, in deployment order */
+  contracts: Record<string, string>;
+  /** Example name → test file relative to the project */
+  tests: Record<string, string>;
+  /** POSIX path relative to the project → file */
+  files: Map<string, PlannedFile>;
+  /** Packages the contracts import plus registry dependencies, with version ranges */
+  dependencies: Record<string, string>;
+  addedDependencies: string[];
+  /** TODO comments left in the contracts of an exercise */
+  todos: (ExerciseTodo & { file: string })[];
+  warnings: string[];
+}
+
+export function defaultProjectExtras(): ProjectExtras {
+  return { frontend: false, ci: false, docs: false };
+}
+
+/**
+ * The examples a project includes, validated against the registry.
+ */
+export function getProjectExamples(registry: Registry, options: ProjectOptions): string[] {
+  if (options.category) {
+    if (!registry.categories[options.category]) {
+      throw new Error(
+        `Unknown category "${options.category}" (expected one of: ${Object.keys(registry.categories).join(", ")})`
+      );
+    }
+    return Object.keys(getCategoryExamples(registry, options.category));
+  }
+
+  const unknown = options.examples.filter((name) => !registry.examples[name]);
+  if (unknown.length > 0) {
+    throw new Error(`Unknown example(s): ${unknown.join(", ")}`);
+  }
+  if (options.examples.length === 0) {
+    throw new Error("No examples selected");
+  }
+  return [...new Set(options.examples)];
+}
+
+/**
+ * Deploy settings of each example, with its category's wiring applied when
+ * every example the wiring references is part of the project.
+ */
+function getDeployConfigs(registry: Registry, exampleNames: string[]): Record<string, DeployConfig> {
+  const configs: Record<string, DeployConfig> = {};
+  for (const exampleName of exampleNames) {
+    const example = registry.examples[exampleName];
+    const categoryDeploy = registry.categories[example.category].deploy[exampleName];
+    const isWired =
+      categoryDeploy && getAddressReferences(categoryDeploy).every((name) => exampleNames.includes(name));
+    configs[exampleName] = isWired ? mergeDeployConfigs(example.deploy, categoryDeploy) : example.deploy;
+  }
+  return configs;
+}
+
+function getTestFile(example: ExampleConfig, contractName: string, testsDir: string): string {
+  // Tests import typechain types through relative paths, so their directory is preserved
+  const testDir = path.posix.dirname(path.posix.relative("test", example.test));
+  return testDir.startsWith("..") || testDir === "."
+    ? `${testsDir}/${contractName}.ts`
+    : `${testsDir}/${testDir}/${contractName}.ts`;
+}
+
+export function planProject(registry: Registry, options: ProjectOptions): ProjectPlan {
+  const exampleNames = getProjectExamples(registry, options);
+  const isSingleExample = !options.category && exampleNames.length === 1;
+  const category = options.category ? registry.categories[options.category] : undefined;
+  const template = loadTemplate(options.template ?? DEFAULT_TEMPLATE);
+  const { layout } = template.manifest;
+
+  const plan: ProjectPlan = {
+    name: options.category
+      ? `fhevm-${options.category}`
+      : isSingleExample
+        ? `fhevm-example-${exampleNames[0]}`
+        : "fhevm-examples",
+    title: category?.title ?? (isSingleExample ? registry.examples[exampleNames[0]].title : "Selected Examples"),
+    description: category
+      ? `FHEVM Category: ${category.description}`
+      : isSingleExample
+        ? `FHEVM Example: ${registry.examples[exampleNames[0]].summary}`
+        : "FHEVM Examples",
+    template: template.name,
+    hooks: template.manifest.hooks.afterWrite,
+    contracts: {},
+    tests: {},
+    files: new Map(),
+    dependencies: {},
+    addedDependencies: [],
+    todos: [],
+    warnings: [],
+  };
+
+  // Generated files use the example's or category's template overrides
+  const loader = createTemplateLoader(
+    getTemplateScopes(isSingleExample ? exampleNames[0] : undefined, options.category)
+  );
+  const jsonString = (value: string) => JSON.stringify(value).slice(1, -1);
+
+  // Template
+  const variables: TemplateVariables = {
+    projectName: plan.name,
+    title: plan.title,
+    description: plan.description,
+    network: options.network,
+    template: template.name,
+    year: String(new Date().getFullYear()),
+    layout,
+    deploy: template.manifest.deploy,
+  };
+  const readTemplateFile = (file: string, source: string) => {
+    const text = fs.readFileSync(source, "utf-8");
+    return matchesAny(file, template.manifest.placeholders)
+      ? renderTemplateSource(text, source, { ...variables }, loader)
+      : text;
+  };
+  for (const [file, source] of template.files) {
+    plan.files.set(
+      file,
+      matchesAny(file, template.manifest.placeholders)
+        ? { content: readTemplateFile(file, source), shared: true }
+        : { source, shared: true }
+    );
+  }
+
+  // Contracts, their local imports, and tests
+  const contracts: Record<string, SolidityContract> = {};
+  const sourceFiles: string[] = [];
+  const importedPackages = new Set<string>();
+  const extraDependencies: Record<string, string> = {};
+
+  for (const exampleName of exampleNames) {
+    const example = registry.examples[exampleName];
+    const contractSrcPath = path.join(REPO_ROOT, example.contract);
+    const contract = loadMainContract(contractSrcPath);
+    contracts[exampleName] = contract;
+
+    const imports = resolveImportGraph(contractSrcPath, REPO_ROOT);
+    if (imports.missing.length > 0) {
+      throw new Error(`Unresolved imports in ${example.contract}: ${imports.missing.join(", ")}`);
+    }
+    imports.localFiles.filter((file) => !sourceFiles.includes(file)).forEach((file) => sourceFiles.push(file));
+    Object.keys(imports.packages).forEach((name) => importedPackages.add(name));
+    Object.assign(extraDependencies, example.dependencies);
+
+    const testFile = getTestFile(example, contract.name, layout.tests);
+    plan.files.set(testFile, { source: path.join(REPO_ROOT, example.test) });
+    plan.tests[exampleName] = testFile;
+  }
+
+  // A single example is flattened into the sources directory; larger projects keep the repository layout
+  const contractsBase = isSingleExample ? path.dirname(sourceFiles[0]) : path.join(REPO_ROOT, "contracts");
+  const contractFiles = getContractLayout(sourceFiles, contractsBase).map(
+    (relativePath) => `${layout.contracts}/${relativePath.split(path.sep).join("/")}`
+  );
+  sourceFiles.forEach((file, i) => plan.files.set(contractFiles[i], { source: file }));
+
+  // Exercises: marked regions of the contracts become TODO stubs; other projects get them without their markers
+  sourceFiles.forEach((file, i) => {
+    const source = fs.readFileSync(file, "utf-8");
+    if (options.variant || findExerciseRegions(source, file).length > 0) {
+      plan.files.set(contractFiles[i], { content: renderExerciseVariant(source, file, options.variant ?? "solution") });
+    }
+    if (options.variant === "exercise") {
+      plan.todos.push(...getExerciseTodos(source, file).map((todo) => ({ ...todo, file: contractFiles[i] })));
+    }
+  });
+  if (options.variant) {
+    for (const exampleName of exampleNames) {
+      const contractFile = path.join(REPO_ROOT, registry.examples[exampleName].contract);
+      if (findExerciseRegions(fs.readFileSync(contractFile, "utf-8"), contractFile).length === 0) {
+        plan.warnings.push(`${exampleName} has no exercise regions (// @exercise-begin); its contract is complete`);
+      }
+    }
+  }
+
+  // Deployment code, in dependency order
+  const deployConfigs = getDeployConfigs(registry, exampleNames);
+  const dependencies = Object.fromEntries(
+    exampleNames.map((exampleName) => [exampleName, getAddressReferences(deployConfigs[exampleName])])
+  );
+  const targets: DeployTarget[] = getDeployOrder(dependencies).map((exampleName) => ({
+    contractName: contracts[exampleName].name,
+    exampleName,
+    dependencies: dependencies[exampleName],
+    deploy: deployConfigs[exampleName],
+  }));
+  const contractNames = Object.fromEntries(targets.map((target) => [target.exampleName, target.contractName]));
+  targets.forEach((target) => (plan.contracts[target.exampleName] = target.contractName));
+  const deployKind = template.manifest.deploy;
+  const deployCommands: Record<DeployKind, string | undefined> = {
+    "hardhat-deploy": `hardhat deploy --network ${options.network}`,
+    scripts: `hardhat run ${layout.deploy}/${DEPLOY_SCRIPT_FILE} --network ${options.network}`,
+    none: undefined,
+  };
+  if (deployKind === "hardhat-deploy") {
+    for (const target of targets) {
+      plan.files.set(`${layout.deploy}/${getDeployFileName(target)}`, {
+        content: renderDeployFunction(
+          target,
+          contractNames,
+          createTemplateLoader(getTemplateScopes(target.exampleName, registry.examples[target.exampleName].category))
+        ),
+      });
+    }
+    if (!isSingleExample) {
+      plan.files.set(`${layout.deploy}/manifest.ts`, {
+        content: renderDeploymentManifest(plan.name, targets, loader),
+        shared: true,
+      });
+    }
+  } else if (deployKind === "scripts") {
+    plan.files.set(`${layout.deploy}/${DEPLOY_SCRIPT_FILE}`, {
+      content: renderDeployScript(plan.name, targets, loader),
+      shared: true,
+    });
+  }
+
+  // package.json
+  if (template.packageJson.length === 0) {
+    throw new Error(`Template "${template.name}" has no ${PACKAGE_JSON_FILE}`);
+  }
+  // Variants extending another one only list the package.json fields they change
+  const variantPackageJson = template.packageJson.reduce<PackageJson>(
+    (merged, source) => mergeJson(merged, JSON.parse(readTemplateFile(PACKAGE_JSON_FILE, source))) as PackageJson,
+    {}
+  );
+  const packageFields: PackageJson = JSON.parse(
+    renderTemplate(
+      "package.json.tpl",
+      {
+        name: jsonString(plan.name),
+        description: jsonString(plan.description),
+        homepage: isSingleExample
+          ? jsonString(`https://github.com/zama-ai/fhevm-examples/tree/main/examples/${exampleNames[0]}`)
+          : "",
+        deployCommand: jsonString(deployCommands[deployKind] ?? ""),
+      },
+      loader
+    )
+  );
+  const packageJson: PackageJson = {
+    ...variantPackageJson,
+    ...packageFields,
+    scripts: { ...variantPackageJson.scripts, ...packageFields.scripts },
+  };
+  const packageVersions = resolvePackageVersions(
+    [...importedPackages],
+    { ...variantPackageJson.devDependencies, ...variantPackageJson.dependencies },
+    REPO_ROOT
+  );
+  packageVersions.unresolved.forEach((name) => {
+    plan.warnings.push(`No version found for imported package ${name}; declare it in the registry's dependencies`);
+  });
+  plan.dependencies = { ...packageVersions.versions, ...extraDependencies };
+
+  // FHEVM packages: a version every example supports, pinned wherever the project declares them
+  const pinnedVersion = (packageName: string) =>
+    packageJson.dependencies?.[packageName] ??
+    packageJson.devDependencies?.[packageName] ??
+    plan.dependencies[packageName];
+  const fhevmVersions = resolveFhevmVersions(
+    Object.fromEntries(exampleNames.map((exampleName) => [exampleName, registry.examples[exampleName].compatibility])),
+    Object.fromEntries(COMPATIBILITY_PACKAGES.map((packageName) => [packageName, pinnedVersion(packageName)])),
+    options.fhevmVersion
+  );
+  for (const [packageName, version] of Object.entries(fhevmVersions)) {
+    for (const versions of [packageJson.dependencies, packageJson.devDependencies, plan.dependencies]) {
+      if (versions?.[packageName]) {
+        versions[packageName] = version;
+      }
+    }
+  }
+  plan.addedDependencies = mergePackageDependencies(packageJson, plan.dependencies);
+  plan.files.set("package.json", { content: JSON.stringify(packageJson, null, 2), shared: true });
+
+  // README
+  const entries: ReadmeEntry[] = exampleNames.map((exampleName) => ({
+    exampleName,
+    example: registry.examples[exampleName],
+    contract: contracts[exampleName],
+    contractFile: contractFiles[sourceFiles.indexOf(path.join(REPO_ROOT, registry.examples[exampleName].contract))],
+    testFile: plan.tests[exampleName],
+  }));
+  plan.files.set("README.md", {
+    content: renderProjectReadme(
+      {
+        title: isSingleExample ? registry.examples[exampleNames[0]].title : plan.title,
+        description: isSingleExample
+          ? registry.examples[exampleNames[0]].description
+          : (category?.description ?? "A selection of FHEVM examples."),
+        network: options.network,
+        single: isSingleExample,
+        layout,
+        deployKind,
+        entries,
+        variant: options.variant,
+        todos: plan.todos,
+      },
+      loader
+    ),
+    shared: true,
+  });
+
+  // Extras
+  if (options.extras.docs) {
+    for (const exampleName of exampleNames) {
+      const example = registry.examples[exampleName];
+      const contractCode = fs.readFileSync(path.join(REPO_ROOT, example.contract), "utf-8");
+      const testCode = fs.readFileSync(path.join(REPO_ROOT, example.test), "utf-8");
+      plan.files.set(`docs/${getDocFileName(exampleName)}`, {
+        content: generateGitBookMarkdown(exampleName, example, contractCode, testCode, {
+          related: getRelatedExamples(registry, exampleName, exampleNames),
+        }),
+      });
+    }
+    plan.files.set("docs/SUMMARY.md", { content: renderSummary(registry, exampleNames), shared: true });
+  }
+  if (options.extras.ci) {
+    plan.files.set(".github/workflows/test.yml", { content: renderTemplate("github/test.yml.tpl", {}, loader), shared: true });
+  }
+  if (options.extras.frontend) {
+    const frontend = renderFrontend(
+      plan.name,
+      plan.title,
+      targets.map((target) => ({
+        exampleName: target.exampleName,
+        title: registry.examples[target.exampleName].title,
+        contract: contracts[target.exampleName],
+      })),
+      options.network,
+      deployKind,
+      loader
+    );
+    for (const [file, content] of Object.entries(frontend.files)) {
+      plan.files.set(file, { content, shared: true });
+    }
+    plan.warnings.push(...frontend.warnings);
+  }
+
+  return plan;
+}
+
+/**
+ * How to treat an output directory that already contains files:
+ * - refuse: stop without writing anything (the default)
+ * - force: replace its contents; installed packages, build output and .git are kept
+ * - merge: add the plan's contracts, tests and deploy scripts to the FHEVM
+ *   project there, merging package.json and keeping every other existing file
+ */
+export type OverwritePolicy = "refuse" | "force" | "merge";
+
+export interface OutputOptions {
+  policy: OverwritePolicy;
+  /** Print the planned file operations and diffs instead of writing */
+  dryRun: boolean;
+  /** How to install a generated exercise to check that it compiles; unset skips the check */
+  compileCheck?: VerifyOptions;
+}
+
+export type FileAction = "create" | "update" | "unchanged" | "keep" | "delete" | "conflict";
+
+export interface FileOperation {
+  /** POSIX path relative to the output directory */
+  path: string;
+  action: FileAction;
+  /** Content currently on disk */
+  before?: string;
+  /** Content the plan writes */
+  after?: string;
+}
+
+export function readPlannedFile(file: PlannedFile): string {
+  return file.source ? fs.readFileSync(file.source, "utf-8") : (file.content ?? "");
+}
+
+export const HARDHAT_CONFIG_FILES = ["hardhat.config.ts", "hardhat.config.js", "hardhat.config.cjs"];
+
+export function findHardhatConfig(dir: string): string | undefined {
+  return HARDHAT_CONFIG_FILES.find((file) => fs.existsSync(path.join(dir, file)));
+}
+
+function isFhevmProject(dir: string): boolean {
+  const packageJsonPath = path.join(dir, "package.json");
+  if (!fs.existsSync(packageJsonPath) || !findHardhatConfig(dir)) {
+    return false;
+  }
+  try {
+    const packageJson: PackageJson = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"));
+    return Boolean({ ...packageJson.devDependencies, ...packageJson.dependencies }["@fhevm/solidity"]);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Add the planned package.json's missing dependencies and scripts to an
+ * existing one. Returns `existing` untouched when nothing is missing.
+ */
+function mergePackageJson(existing: string, planned: string): string {
+  const packageJson: PackageJson = JSON.parse(existing);
+  const plannedJson: PackageJson = JSON.parse(planned);
+
+  const added = [
+    ...mergePackageDependencies(packageJson, plannedJson.dependencies ?? {}),
+    ...mergePackageDependencies(packageJson, plannedJson.devDependencies ?? {}, "devDependencies"),
+  ];
+  const missingScripts = Object.keys(plannedJson.scripts ?? {}).filter((name) => !packageJson.scripts?.[name]);
+  if (added.length === 0 && missingScripts.length === 0) {
+    return existing;
+  }
+
+  packageJson.scripts = { ...plannedJson.scripts, ...packageJson.scripts };
+  return `${JSON.stringify(packageJson, null, 2)}${existing.endsWith("\n") ? "\n" : ""}`;
+}
+
+function listExistingFiles(outputDir: string): string[] {
+  if (fs.existsSync(outputDir) && !fs.statSync(outputDir).isDirectory()) {
+    throw new Error(`${outputDir} exists and is not a directory`);
+  }
+  return fs.existsSync(outputDir) ? listProjectFiles(outputDir) : [];
+}
+
+/**
+ * Whether `policy` lets a real run write into `outputDir`: "refuse" only
+ * writes into a missing or empty directory.
+ */
+export function isWritable(outputDir: string, policy: OverwritePolicy): boolean {
+  return policy !== "refuse" || listExistingFiles(outputDir).length === 0;
+}
+
+export function assertWritable(outputDir: string, policy: OverwritePolicy): void {
+  if (!isWritable(outputDir, policy)) {
+    throw new Error(
+      `${outputDir} already contains files. Pass --force to replace them, --merge to add to the project there, ` +
+        "or --dry-run to preview the changes."
+    );
+  }
+}
+
+/**
+ * Compare a plan with what is already in `outputDir` and decide what to do
+ * with each file under `policy`. Throws when merging into something that is
+ * not an FHEVM project. Merge conflicts are returned as "conflict"
+ * operations; whether a "refuse" policy allows the write at all is left to
+ * `assertWritable`, so dry runs can still show the changes.
+ */
+export function planWrite(
+  plan: Pick<ProjectPlan, "files">,
+  outputDir: string,
+  policy: OverwritePolicy
+): FileOperation[] {
+  const existing = listExistingFiles(outputDir);
+  if (existing.length > 0 && policy === "merge" && !isFhevmProject(outputDir)) {
+    throw new Error(
+      `${outputDir} is not an FHEVM Hardhat project (no Hardhat config or no @fhevm/solidity dependency); ` +
+        "--merge only adds to existing projects"
+    );
+  }
+
+  const operations: FileOperation[] = [];
+  for (const [relativePath, file] of plan.files) {
+    const destPath = path.join(outputDir, relativePath);
+    let after = readPlannedFile(file);
+    if (!fs.existsSync(destPath)) {
+      operations.push({ path: relativePath, action: "create", after });
+      continue;
+    }
+
+    const before = fs.readFileSync(destPath, "utf-8");
+    if (policy === "merge" && relativePath === "package.json") {
+      after = mergePackageJson(before, after);
+    } else if (policy === "merge" && file.shared) {
+      operations.push({ path: relativePath, action: "keep", before });
+      continue;
+    }
+
+    if (before === after) {
+      operations.push({ path: relativePath, action: "unchanged", before, after });
+    } else {
+      operations.push({ path: relativePath, action: policy === "merge" ? "conflict" : "update", before, after });
+    }
+  }
+
+  if (policy === "force") {
+    for (const relativePath of existing.filter((file) => !plan.files.has(file))) {
+      const before = fs.readFileSync(path.join(outputDir, relativePath), "utf-8");
+      operations.push({ path: relativePath, action: "delete", before });
+    }
+  }
+
+  return operations;
+}
+
+export function assertNoConflicts(operations: FileOperation[], outputDir: string): void {
+  const conflicts = operations.filter((operation) => operation.action === "conflict");
+  if (conflicts.length > 0) {
+    throw new Error(
+      `Cannot merge into ${outputDir}: these files already exist with different content:\n` +
+        `${conflicts.map((operation) => `  - ${operation.path}`).join("\n")}\n` +
+        "Rename or remove them, or pass --force to replace the project."
+    );
+  }
+}
+
+/**
+ * Carry out the operations returned by `planWrite`.
+ */
+export function applyWriteOperations(outputDir: string, operations: FileOperation[]): void {
+  assertNoConflicts(operations, outputDir);
+
+  for (const operation of operations) {
+    const destPath = path.join(outputDir, operation.path);
+    if (operation.action === "create" || operation.action === "update") {
+      fs.mkdirSync(path.dirname(destPath), { recursive: true });
+      fs.writeFileSync(destPath, operation.after ?? "");
+    } else if (operation.action === "delete") {
+      fs.rmSync(destPath);
+      // Remove directories the deletion left empty
+      let dir = path.dirname(destPath);
+      while (dir !== outputDir && fs.readdirSync(dir).length === 0) {
+        fs.rmdirSync(dir);
+        dir = path.dirname(dir);
+      }
+    }
+  }
+}
+
+const ACTION_LABELS: Record<FileAction, [string, "green" | "yellow" | "red" | "blue"]> = {
+  create: ["create", "green"],
+  update: ["update", "yellow"],
+  unchanged: ["unchanged", "blue"],
+  keep: ["keep", "blue"],
+  delete: ["delete", "red"],
+  conflict: ["conflict", "red"],
+};
+
+/**
+ * Print one line per operation, then a unified diff of every file whose
+ * content would change.
+ */
+export function reportWriteOperations(operations: FileOperation[]): void {
+  for (const operation of operations) {
+    const [label, color] = ACTION_LABELS[operation.action];
+    log(`  ${label.padEnd(9)} ${operation.path}`, color);
+  }
+
+  for (const operation of operations) {
+    if (operation.action === "update" || operation.action === "conflict") {
+      log("");
+      const { before = "", after = "" } = operation;
+      log(unifiedDiff(before, after, `a/${operation.path}`, `b/${operation.path}`).trimEnd());
+    }
+  }
+}
+
+export function countOperations(operations: FileOperation[], action: FileAction): number {
+  return operations.filter((operation) => operation.action === action).length;
+}
+
+interface TreeNode {
+  [name: string]: TreeNode;
+}
+
+/**
+ * Render file paths as a `tree`-style listing, directories first.
+ */
+export function renderFileTree(paths: string[]): string {
+  const root: TreeNode = {};
+  for (const filePath of paths) {
+    let node = root;
+    for (const segment of filePath.split("/")) {
+      node = node[segment] = node[segment] ?? {};
+    }
+  }
+
+  const lines: string[] = ["."];
+  const walk = (node: TreeNode, prefix: string) => {
+    const names = Object.keys(node).sort((a, b) => {
+      const aIsDir = Object.keys(node[a]).length > 0;
+      const bIsDir = Object.keys(node[b]).length > 0;
+      return aIsDir === bIsDir ? a.localeCompare(b) : aIsDir ? -1 : 1;
+    });
+    names.forEach((name, i) => {
+      const isLast = i === names.length - 1;
+      const isDir = Object.keys(node[name]).length > 0;
+      lines.push(`${prefix}${isLast ? "└── " : "├── "}${name}${isDir ? "/" : ""}`);
+      walk(node[name], `${prefix}${isLast ? "    " : "│   "}`);
+    });
+  };
+  walk(root, "");
+
+  return lines.join("\n");
+}
+
+/**
+ * Plan, write and optionally verify a project, logging each step. With
+ * `output.dryRun` the planned operations are printed and nothing is written.
+ * Unless merging, the project gets a generation manifest for `upgrade`.
+ */
+export function generateProject(
+  registry: Registry,
+  options: ProjectOptions,
+  outputPath: string,
+  output: OutputOptions,
+  verifyOptions?: VerifyOptions
+): ProjectPlan {
+  log("Step 1: Planning project files...", "blue");
+  const plan = planProject(registry, options);
+  log(`  Template: ${plan.template}`, "cyan");
+  for (const [exampleName, contractName] of Object.entries(plan.contracts)) {
+    log(`  ✓ ${contractName} (${exampleName})`, "green");
+  }
+  plan.addedDependencies.forEach((name) => log(`  ✓ Added dependency: ${name}`, "green"));
+  plan.warnings.forEach((warning) => log(`  ⚠ ${warning}`, "yellow"));
+  if (Object.keys(plan.contracts).length > 1) {
+    log(`  Deploy order: ${Object.values(plan.contracts).join(" → ")}`, "cyan");
+  }
+
+  // Merged files belong to the project there, so only whole projects record how they were generated
+  if (output.policy !== "merge") {
+    addGenerationManifest(plan, options);
+  }
+
+  const operations = planWrite(plan, outputPath, output.policy);
+  if (output.dryRun) {
+    log(`Step 2: Planned changes in ${outputPath} (dry run)...`, "blue");
+    reportWriteOperations(operations);
+    assertNoConflicts(operations, outputPath);
+    plan.hooks.forEach((command) => log(`  would run: ${command}`, "blue"));
+    if (!isWritable(outputPath, output.policy)) {
+      log(`  ⚠ ${outputPath} already contains files: a real run refuses without --force or --merge`, "yellow");
+    }
+    log("Dry run: nothing was written", "yellow");
+    return plan;
+  }
+
+  assertWritable(outputPath, output.policy);
+  log(`Step 2: Writing ${plan.files.size} files...`, "blue");
+  applyWriteOperations(outputPath, operations);
+  const written = countOperations(operations, "create") + countOperations(operations, "update");
+  const kept = countOperations(operations, "keep") + countOperations(operations, "unchanged");
+  const deleted = countOperations(operations, "delete");
+  log(
+    `✓ Project written to ${outputPath} (${written} written, ${kept} left as they were${deleted > 0 ? `, ${deleted} removed` : ""})`,
+    "green"
+  );
+
+  if (plan.hooks.length > 0) {
+    log(`Running the ${plan.template} template's hooks...`, "blue");
+    runTemplateHooks(plan.hooks, outputPath);
+  }
+
+  // Stubbed exercises are compiled unless skipped, but not tested: their tests fail until the TODOs are done
+  const compileOptions = verifyOptions ?? output.compileCheck;
+  if (options.variant === "exercise" && compileOptions) {
+    log("Step 3: Checking that the exercise compiles...", "blue");
+    if (!reportVerification(verifyProject(outputPath, plan.tests, { ...compileOptions, skipTests: true }))) {
+      throw new Error(`Exercise generated in ${outputPath} but failed the compile check`);
+    }
+  } else if (verifyOptions) {
+    log("Step 3: Verifying generated project...", "blue");
+    if (!reportVerification(verifyProject(outputPath, plan.tests, verifyOptions))) {
+      throw new Error(`Project generated in ${outputPath} but failed verification`);
+    }
+  }
+
+  return plan;
+}
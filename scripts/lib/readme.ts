@@ -0,0 +1,101 @@
+import * as path from "path";
+import { ExampleConfig } from "./registry";
+import { SolidityContract, SolidityParameter } from "./solidity";
+import { DeployKind, TemplateLayout } from "./templates";
+import { ExerciseTodo, ProjectVariant } from "./exercise";
+import { createTemplateLoader, renderTemplate, TemplateLoader } from "./templating";
+
+/**
+ * Project READMEs
+ * README.md content for generated single-example and multi-example
+ * projects, rendered from scripts/templates/README.md.tpl.
+ */
+
+export interface ReadmeEntry {
+  exampleName: string;
+  example: ExampleConfig;
+  contract: SolidityContract;
+  /** Contract and test paths relative to the generated project */
+  contractFile: string;
+  testFile: string;
+}
+
+export interface ProjectReadmeInput {
+  title: string;
+  description: string;
+  network: string;
+  /** A single-example project rather than a category or selection */
+  single: boolean;
+  layout: TemplateLayout;
+  deployKind: DeployKind;
+  entries: ReadmeEntry[];
+  /** Set when the project is a tutorial exercise or its solution */
+  variant?: ProjectVariant;
+  /** TODO comments of an exercise, with paths relative to the project */
+  todos?: (ExerciseTodo & { file: string })[];
+}
+
+export function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function formatParameters(parameters: SolidityParameter[]): string {
+  return parameters
+    .map((parameter) => [parameter.type, parameter.indexed ? "indexed" : "", parameter.name].filter(Boolean).join(" "))
+    .join(", ");
+}
+
+function getEntryContext(entry: ReadmeEntry, layout: TemplateLayout): Record<string, unknown> {
+  const { exampleName, example, contract, contractFile, testFile } = entry;
+  return {
+    name: exampleName,
+    title: example.title,
+    summary: example.summary,
+    description: example.description,
+    contractName: contract.name,
+    contractFile,
+    contractPath: path.posix.relative(layout.contracts, contractFile),
+    testFile,
+    testPath: path.posix.relative(layout.tests, testFile),
+    fheTypes: contract.fheTypes.length > 0 ? contract.fheTypes.map((type) => `\`${type}\``).join(", ") : "none",
+    functions: contract.functions.map((fn) => {
+      const returns = fn.returns.length > 0 ? ` → ${formatParameters(fn.returns)}` : "";
+      return {
+        signature: escapeTableCell(`${fn.name}(${formatParameters(fn.parameters)})${returns}`),
+        mutability: fn.stateMutability ?? "nonpayable",
+        description: escapeTableCell(fn.natspec.notice ?? fn.natspec.dev ?? ""),
+      };
+    }),
+    events: contract.events.map((event) => ({
+      name: event.name,
+      parameters: escapeTableCell(formatParameters(event.parameters)),
+    })),
+  };
+}
+
+export function renderProjectReadme(input: ProjectReadmeInput, loader: TemplateLoader = createTemplateLoader()): string {
+  const { title, description, network, single, layout, deployKind, entries, variant, todos = [] } = input;
+  return renderTemplate(
+    "README.md.tpl",
+    {
+      single,
+      title,
+      description,
+      network,
+      contractCount: entries.length,
+      layout,
+      deploy: {
+        enabled: deployKind !== "none",
+        hardhatDeploy: deployKind === "hardhat-deploy",
+        scripts: deployKind === "scripts",
+        // Multi-example hardhat-deploy projects get manifest.ts; the standalone script always writes one
+        manifest: deployKind === "scripts" || (deployKind === "hardhat-deploy" && !single),
+      },
+      examples: entries.map((entry) => getEntryContext(entry, layout)),
+      exercise: variant === "exercise",
+      solution: variant === "solution",
+      todos,
+    },
+    loader
+  );
+}
@@ -0,0 +1,485 @@
+import * as fs from "fs";
+import * as path from "path";
+import { discoverExamples } from "./discovery";
+import {
+  checkDeployConfig,
+  DeployConfig,
+  emptyDeployConfig,
+  getAddressReferences,
+  getDeployOrder,
+  mergeDeployConfigs,
+  parseDeployConfig,
+} from "./deploy";
+import { getMainContract, parseSolidityFile } from "./solidity";
+import { COMPATIBILITY_PACKAGES, FHEVM_SOLIDITY, inferSolidityRange, isValidRange, rangesIntersect } from "./versions";
+
+/**
+ * Example Registry
+ * Single source of truth for the examples and categories used by
+ * create-fhevm-example, create-fhevm-category and generate-docs.
+ * Examples are discovered from contracts/ and test/ (see discovery.ts);
+ * scripts/registry.json declares the categories and per-example overrides.
+ * The merged result is validated on load.
+ */
+
+export const REPO_ROOT = path.join(__dirname, "..", "..");
+export const REGISTRY_PATH = path.join(REPO_ROOT, "scripts", "registry.json");
+
+export interface CategoryConfig {
+  title: string;
+  description: string;
+  /** Per-example deploy settings applied when the category is deployed together */
+  deploy: Record<string, DeployConfig>;
+}
+
+export interface ExampleConfig {
+  title: string;
+  summary: string;
+  description: string;
+  category: string;
+  contract: string;
+  test: string;
+  tags: string[];
+  dependencies: Record<string, string>;
+  /**
+   * Supported version range of each FHEVM package; @fhevm/solidity defaults
+   * to the range implied by the config contract the example inherits
+   */
+  compatibility: Record<string, string>;
+  deploy: DeployConfig;
+}
+
+export interface Registry {
+  categories: Record<string, CategoryConfig>;
+  examples: Record<string, ExampleConfig>;
+  warnings: string[];
+}
+
+export class RegistryError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid example registry:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "RegistryError";
+  }
+}
+
+export const NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function requireString(entry: Json, key: string, where: string, issues: string[]): string {
+  const value = entry[key];
+  if (typeof value !== "string" || value.trim().length === 0) {
+    issues.push(`${where}: "${key}" must be a non-empty string`);
+    return "";
+  }
+  return value;
+}
+
+function validateCategory(name: string, raw: unknown, issues: string[]): CategoryConfig {
+  const where = `category "${name}"`;
+  if (!NAME_PATTERN.test(name)) {
+    issues.push(`${where}: name must be kebab-case`);
+  }
+  if (!isObject(raw)) {
+    issues.push(`${where}: entry must be an object`);
+    return { title: "", description: "", deploy: {} };
+  }
+
+  const category: CategoryConfig = {
+    title: requireString(raw, "title", where, issues),
+    description: requireString(raw, "description", where, issues),
+    deploy: {},
+  };
+
+  if (raw.deploy !== undefined) {
+    if (!isObject(raw.deploy)) {
+      issues.push(`${where}: "deploy" must map example names to deploy settings`);
+    } else {
+      for (const [example, config] of Object.entries(raw.deploy)) {
+        category.deploy[example] = parseDeployConfig(config, `${where} deploy "${example}"`, issues);
+      }
+    }
+  }
+
+  return category;
+}
+
+function validateExample(
+  name: string,
+  raw: unknown,
+  categories: Record<string, CategoryConfig>,
+  rootDir: string,
+  issues: string[]
+): ExampleConfig {
+  const where = `example "${name}"`;
+  if (!NAME_PATTERN.test(name)) {
+    issues.push(`${where}: name must be kebab-case`);
+  }
+  if (!isObject(raw)) {
+    issues.push(`${where}: entry must be an object`);
+    raw = {};
+  }
+  const entry = raw as Json;
+
+  const example: ExampleConfig = {
+    title: requireString(entry, "title", where, issues),
+    summary: requireString(entry, "summary", where, issues),
+    description: requireString(entry, "description", where, issues),
+    category: requireString(entry, "category", where, issues),
+    contract: requireString(entry, "contract", where, issues),
+    test: requireString(entry, "test", where, issues),
+    tags: [],
+    dependencies: {},
+    compatibility: {},
+    deploy: emptyDeployConfig(),
+  };
+
+  if (example.category && !categories[example.category]) {
+    issues.push(
+      `${where}: unknown category "${example.category}" (expected one of: ${Object.keys(categories).join(", ")})`
+    );
+  }
+
+  if (example.contract && !example.contract.endsWith(".sol")) {
+    issues.push(`${where}: contract must be a .sol file`);
+  }
+  if (example.test && !example.test.endsWith(".ts")) {
+    issues.push(`${where}: test must be a .ts file`);
+  }
+  for (const key of ["contract", "test"] as const) {
+    if (example[key] && !fs.existsSync(path.join(rootDir, example[key]))) {
+      issues.push(`${where}: ${key} file not found: ${example[key]}`);
+    }
+  }
+
+  if (entry.tags !== undefined) {
+    if (!Array.isArray(entry.tags) || entry.tags.some((tag) => typeof tag !== "string")) {
+      issues.push(`${where}: "tags" must be an array of strings`);
+    } else {
+      example.tags = entry.tags as string[];
+    }
+  }
+
+  if (entry.dependencies !== undefined) {
+    if (
+      !isObject(entry.dependencies) ||
+      Object.values(entry.dependencies).some((version) => typeof version !== "string")
+    ) {
+      issues.push(`${where}: "dependencies" must map package names to version ranges`);
+    } else {
+      example.dependencies = entry.dependencies as Record<string, string>;
+    }
+  }
+
+  if (entry.compatibility !== undefined) {
+    if (!isObject(entry.compatibility)) {
+      issues.push(`${where}: "compatibility" must map FHEVM packages to version ranges`);
+    } else {
+      for (const [packageName, range] of Object.entries(entry.compatibility)) {
+        if (!COMPATIBILITY_PACKAGES.includes(packageName)) {
+          issues.push(
+            `${where}: compatibility: unknown package "${packageName}" (expected one of: ${COMPATIBILITY_PACKAGES.join(", ")})`
+          );
+        } else if (typeof range !== "string" || !isValidRange(range)) {
+          issues.push(`${where}: compatibility: "${packageName}" must be a semver range`);
+        } else {
+          example.compatibility[packageName] = range;
+        }
+      }
+    }
+  }
+  checkContractCompatibility(example, where, rootDir, issues);
+
+  if (entry.deploy !== undefined) {
+    example.deploy = parseDeployConfig(entry.deploy, where, issues);
+    if (getAddressReferences(example.deploy).length > 0) {
+      issues.push(`${where}: "address" arguments are only allowed in a category's deploy settings`);
+    }
+    checkContractDeploy(example, example.deploy, where, rootDir, issues);
+  }
+
+  for (const key of Object.keys(entry)) {
+    const knownFields = [
+      "title",
+      "summary",
+      "description",
+      "category",
+      "contract",
+      "test",
+      "tags",
+      "dependencies",
+      "compatibility",
+      "deploy",
+    ];
+    if (!knownFields.includes(key)) {
+      issues.push(`${where}: unknown field "${key}"`);
+    }
+  }
+
+  return example;
+}
+
+function checkContractDeploy(
+  example: ExampleConfig,
+  config: DeployConfig,
+  where: string,
+  rootDir: string,
+  issues: string[]
+): void {
+  const contractPath = path.join(rootDir, example.contract);
+  if (!example.contract.endsWith(".sol") || !fs.existsSync(contractPath)) {
+    return;
+  }
+  const contract = getMainContract(parseSolidityFile(contractPath));
+  if (contract) {
+    checkDeployConfig(contract, config).forEach((issue) => issues.push(`${where}: ${issue}`));
+  }
+}
+
+/**
+ * Default the @fhevm/solidity range to the one implied by the contract's
+ * network config, and reject a declared range that config rules out.
+ */
+function checkContractCompatibility(example: ExampleConfig, where: string, rootDir: string, issues: string[]): void {
+  const contractPath = path.join(rootDir, example.contract);
+  if (!example.contract.endsWith(".sol") || !fs.existsSync(contractPath)) {
+    return;
+  }
+  const contract = getMainContract(parseSolidityFile(contractPath));
+  const inferred = contract && inferSolidityRange(contract);
+  if (!inferred) {
+    return;
+  }
+  const declared = example.compatibility[FHEVM_SOLIDITY];
+  if (!declared) {
+    example.compatibility[FHEVM_SOLIDITY] = inferred.range;
+  } else if (!rangesIntersect(declared, inferred.range)) {
+    issues.push(
+      `${where}: compatibility: ${FHEVM_SOLIDITY} ${declared} excludes the versions providing ${inferred.from} (${inferred.range})`
+    );
+  }
+}
+
+/**
+ * Check a category's deploy settings: they must target the category's own
+ * examples, and the address references between them must not form a cycle.
+ */
+function validateCategoryDeploy(
+  name: string,
+  category: CategoryConfig,
+  examples: Record<string, ExampleConfig>,
+  rootDir: string,
+  issues: string[]
+): void {
+  const where = `category "${name}"`;
+  const members = Object.keys(examples).filter((example) => examples[example].category === name);
+  const dependencies: Record<string, string[]> = {};
+
+  for (const example of members) {
+    dependencies[example] = [];
+  }
+
+  for (const [example, config] of Object.entries(category.deploy)) {
+    const exampleWhere = `${where} deploy "${example}"`;
+    if (!members.includes(example)) {
+      issues.push(`${exampleWhere}: "${example}" is not an example of this category`);
+      continue;
+    }
+    for (const reference of getAddressReferences(config)) {
+      if (reference === example) {
+        issues.push(`${exampleWhere}: an example cannot reference its own address`);
+      } else if (!members.includes(reference)) {
+        issues.push(`${exampleWhere}: referenced example "${reference}" is not part of this category`);
+      } else {
+        dependencies[example].push(reference);
+      }
+    }
+    const merged = mergeDeployConfigs(examples[example].deploy, config);
+    checkContractDeploy(examples[example], merged, exampleWhere, rootDir, issues);
+  }
+
+  try {
+    getDeployOrder(dependencies);
+  } catch (error) {
+    issues.push(`${where}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Validate a parsed registry document. Every problem is collected so that a
+ * single run reports all broken entries at once.
+ */
+export function validateRegistry(raw: unknown, rootDir: string = REPO_ROOT): Registry {
+  const issues: string[] = [];
+
+  if (!isObject(raw) || !isObject(raw.categories) || !isObject(raw.examples)) {
+    throw new RegistryError(['registry must contain "categories" and "examples" objects']);
+  }
+
+  const categories: Record<string, CategoryConfig> = {};
+  for (const [name, entry] of Object.entries(raw.categories)) {
+    categories[name] = validateCategory(name, entry, issues);
+  }
+
+  const examples: Record<string, ExampleConfig> = {};
+  const contractOwners: Record<string, string> = {};
+  for (const [name, entry] of Object.entries(raw.examples)) {
+    const example = validateExample(name, entry, categories, rootDir, issues);
+    if (example.contract && contractOwners[example.contract]) {
+      issues.push(
+        `example "${name}": contract ${example.contract} is already registered by "${contractOwners[example.contract]}"`
+      );
+    }
+    contractOwners[example.contract] = name;
+    examples[name] = example;
+  }
+
+  for (const [name, category] of Object.entries(categories)) {
+    validateCategoryDeploy(name, category, examples, rootDir, issues);
+  }
+
+  if (issues.length > 0) {
+    throw new RegistryError(issues);
+  }
+
+  return { categories, examples, warnings: [] };
+}
+
+/**
+ * Duplicate keys are silently collapsed by JSON.parse, so they are detected
+ * on the raw text before parsing.
+ */
+function findDuplicateKeys(source: string, section: "categories" | "examples"): string[] {
+  const start = source.indexOf(`"${section}"`);
+  if (start === -1) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  const duplicates: string[] = [];
+  let depth = 0;
+
+  for (let i = source.indexOf("{", start); i < source.length; i++) {
+    const char = source[i];
+    if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        break;
+      }
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== '"') {
+        end += source[end] === "\\" ? 2 : 1;
+      }
+      const key = source.slice(i + 1, end);
+      const isKey = /^\s*:/.test(source.slice(end + 1));
+      if (depth === 1 && isKey) {
+        if (seen.has(key)) {
+          duplicates.push(key);
+        }
+        seen.add(key);
+      }
+      i = end;
+    }
+  }
+
+  return duplicates;
+}
+
+/**
+ * Index of the closing brace of a top-level section of the registry source.
+ */
+function findSectionEnd(source: string, section: "categories" | "examples"): number {
+  const start = source.indexOf(`"${section}"`);
+  let depth = 0;
+  for (let i = start === -1 ? source.length : source.indexOf("{", start); i < source.length; i++) {
+    const char = source[i];
+    if (char === "{") {
+      depth++;
+    } else if (char === "}" && --depth === 0) {
+      return i;
+    } else if (char === '"') {
+      i++;
+      while (i < source.length && source[i] !== '"') {
+        i += source[i] === "\\" ? 2 : 1;
+      }
+    }
+  }
+  throw new RegistryError([`registry has no "${section}" object`]);
+}
+
+/**
+ * Add an entry at the end of a registry section, leaving the rest of the
+ * hand-formatted file as it is. Arrays of strings stay on one line.
+ */
+export function addRegistryEntry(
+  source: string,
+  section: "categories" | "examples",
+  name: string,
+  entry: Record<string, unknown>
+): string {
+  const end = findSectionEnd(source, section);
+  const body = source.slice(0, end).trimEnd();
+  const formatted = JSON.stringify(entry, null, 2)
+    .replace(/\[\s*("[^"]*"(?:,\s*"[^"]*")*)\s*\]/g, (_, items: string) => `[${items.split(/",\s*"/).join('", "')}]`)
+    .replace(/\n/g, "\n    ");
+  const separator = body.endsWith("{") ? "" : ",";
+  return `${body}${separator}\n    ${JSON.stringify(name)}: ${formatted}\n  ${source.slice(end)}`;
+}
+
+export function loadRegistry(registryPath: string = REGISTRY_PATH, rootDir: string = REPO_ROOT): Registry {
+  if (!fs.existsSync(registryPath)) {
+    throw new RegistryError([`registry file not found: ${registryPath}`]);
+  }
+
+  const source = fs.readFileSync(registryPath, "utf-8");
+  const duplicates = [
+    ...findDuplicateKeys(source, "categories").map((name) => `duplicate category name "${name}"`),
+    ...findDuplicateKeys(source, "examples").map((name) => `duplicate example name "${name}"`),
+  ];
+  if (duplicates.length > 0) {
+    throw new RegistryError(duplicates);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(source);
+  } catch (error) {
+    throw new RegistryError([`${path.basename(registryPath)} is not valid JSON: ${(error as Error).message}`]);
+  }
+
+  if (!isObject(raw) || !isObject(raw.examples)) {
+    return validateRegistry(raw, rootDir);
+  }
+
+  // Registry entries override discovered metadata field by field; entries
+  // without a discovered contract must declare every field themselves.
+  const discovery = discoverExamples(rootDir);
+  const overrides = raw.examples;
+  const examples: Json = {};
+  for (const [name, discovered] of Object.entries(discovery.examples)) {
+    const override = isObject(overrides[name]) ? overrides[name] : {};
+    examples[name] = { ...discovered, ...(override as Json) };
+  }
+  for (const [name, override] of Object.entries(overrides)) {
+    if (!(name in examples)) {
+      examples[name] = override;
+    }
+  }
+
+  const registry = validateRegistry({ ...raw, examples }, rootDir);
+  registry.warnings = discovery.warnings;
+  return registry;
+}
+
+export function getCategoryExamples(registry: Registry, category: string): Record<string, ExampleConfig> {
+  return Object.fromEntries(
+    Object.entries(registry.examples).filter(([, example]) => example.category === category)
+  );
+}
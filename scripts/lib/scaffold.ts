@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Scaffolding Helpers
+ * File operations shared by create-fhevm-example and create-fhevm-category.
+ */
+
+export interface PackageJson {
+  name?: string;
+  description?: string;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+const PROJECT_IGNORE = ["node_modules", "artifacts", "cache", ".git", "dist"];
+
+/**
+ * Files of a Hardhat project (such as the template), as POSIX paths relative
+ * to `projectDir`. Build output, installed packages, .git and lock files are skipped.
+ */
+export function listProjectFiles(projectDir: string, relativeDir: string = ""): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(path.join(projectDir, relativeDir)).sort()) {
+    if (PROJECT_IGNORE.includes(entry) || entry.endsWith(".lock")) {
+      continue;
+    }
+    const relativePath = relativeDir ? `${relativeDir}/${entry}` : entry;
+    if (fs.statSync(path.join(projectDir, relativePath)).isDirectory()) {
+      files.push(...listProjectFiles(projectDir, relativePath));
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files;
+}
+
+function isInside(file: string, dir: string): boolean {
+  const relative = path.relative(dir, file);
+  return relative.length > 0 && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+function commonAncestor(files: string[]): string {
+  let ancestor = path.dirname(files[0]);
+  while (!files.every((file) => isInside(file, ancestor))) {
+    ancestor = path.dirname(ancestor);
+  }
+  return ancestor;
+}
+
+/**
+ * Destination of each Solidity source: its path relative to `preferredBase`,
+ * or to the closest common directory when some of them live outside it, so
+ * relative imports keep resolving.
+ */
+export function getContractLayout(files: string[], preferredBase: string): string[] {
+  if (files.length === 0) {
+    return [];
+  }
+
+  const base = files.every((file) => isInside(file, preferredBase)) ? preferredBase : commonAncestor(files);
+  return files.map((file) => path.relative(base, file));
+}
+
+/**
+ * Add missing entries to a parsed package.json. Packages already listed as
+ * dependencies or devDependencies are left alone; `field` selects whether
+ * missing packages go to dependencies or devDependencies. Returns the names
+ * of the packages that were added.
+ */
+export function mergePackageDependencies(
+  packageJson: PackageJson,
+  dependencies: Record<string, string>,
+  field: "dependencies" | "devDependencies" = "dependencies"
+): string[] {
+  const existing = { ...packageJson.devDependencies, ...packageJson.dependencies };
+
+  const added = Object.keys(dependencies).filter((name) => !existing[name]);
+  if (added.length === 0) {
+    return [];
+  }
+
+  const merged: Record<string, string> = { ...packageJson[field] };
+  for (const name of added) {
+    merged[name] = dependencies[name];
+  }
+  packageJson[field] = Object.fromEntries(Object.entries(merged).sort(([a], [b]) => a.localeCompare(b)));
+
+  return added;
+}
@@ -0,0 +1,317 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  addRegistryEntry,
+  ExampleConfig,
+  loadRegistry,
+  NAME_PATTERN,
+  Registry,
+  REGISTRY_PATH,
+  REPO_ROOT,
+} from "./registry";
+import { log } from "./log";
+import { toKebabCase, toTitleCase } from "./discovery";
+import { emptyDeployConfig, ENCRYPTED_INPUT_METHODS, EncryptedInputType } from "./deploy";
+import { getRelatedExamples } from "./docs";
+import { generateGitBookMarkdown, getDocFileName, renderSummary } from "./formats";
+import { applyWriteOperations, FileOperation, reportWriteOperations } from "./project";
+import { createTemplateLoader, renderTemplate, TemplateLoader } from "./templating";
+
+/**
+ * New Examples
+ * `create-fhevm-example new` adds an example to this repository from a
+ * contract name, a category and a list of encrypted fields: a contract
+ * following contracts/treasury/EncryptedTreasury.sol (ZamaEthereumConfig,
+ * FHE.fromExternal inputs, allowThis/allow after each write), its test
+ * suite, a docs page and registry entries. The contract and test are
+ * rendered from scripts/templates/new/.
+ *
+ * Examples live in per-domain directories, not per-category ones: the
+ * commerce category holds contracts/marketplace/ and contracts/treasury/.
+ * A new example goes to contracts/<domain>/ and test/<domain>/, and the
+ * domain is also its first tag, as for the existing examples. The domain
+ * defaults to the category name.
+ */
+
+export interface EncryptedField {
+  /** Encrypted type, e.g. euint64 */
+  type: string;
+  /** camelCase field name, e.g. balance */
+  name: string;
+}
+
+export interface NewExampleOptions {
+  /** PascalCase contract name; the example is named after it in kebab-case */
+  contractName: string;
+  category: string;
+  /** Directory under contracts/ and test/, and first tag; the category name when unset */
+  domain?: string;
+  fields: EncryptedField[];
+  /** Registry description; the contract's @notice is used when unset */
+  description?: string;
+  /** Title and description of a category that is not in the registry yet */
+  categoryTitle?: string;
+  categoryDescription?: string;
+}
+
+export interface NewExamplePlan {
+  exampleName: string;
+  /** POSIX paths relative to the repository */
+  contractFile: string;
+  testFile: string;
+  operations: FileOperation[];
+  warnings: string[];
+}
+
+const CONTRACT_NAME_PATTERN = /^[A-Z][A-Za-z0-9]*$/;
+const FIELD_NAME_PATTERN = /^[a-z][A-Za-z0-9]*$/;
+const NUMERIC_TYPES: EncryptedInputType[] = ["uint8", "uint16", "uint32", "uint64", "uint128"];
+
+/** Encrypted types a field can have */
+export const FIELD_TYPES = Object.keys(ENCRYPTED_INPUT_METHODS).map((type) => `e${type}`);
+
+/**
+ * Parse a field given as `<type> <name>`, e.g. `euint64 balance`.
+ */
+export function parseEncryptedField(spec: string): EncryptedField {
+  const match = spec.trim().match(/^(\S+)\s+(\S+)$/);
+  if (!match) {
+    throw new Error(`Invalid field "${spec}" (expected "<type> <name>", e.g. "euint64 balance")`);
+  }
+  return { type: match[1], name: match[2] };
+}
+
+/**
+ * Contract and test paths of a new example (POSIX, relative to the
+ * repository), in the directories of its domain.
+ */
+export function getNewExampleFiles(options: NewExampleOptions): { contractFile: string; testFile: string } {
+  const domain = options.domain ?? options.category;
+  return {
+    contractFile: `contracts/${domain}/${options.contractName}.sol`,
+    testFile: `test/${domain}/${options.contractName}.ts`,
+  };
+}
+
+/**
+ * Throws with every problem of the options: invalid names or types, or an
+ * example, contract or test that already exists.
+ */
+export function validateNewExample(registry: Registry, options: NewExampleOptions): void {
+  const issues: string[] = [];
+  const { contractName, category, fields } = options;
+
+  if (!CONTRACT_NAME_PATTERN.test(contractName)) {
+    issues.push(`contract name "${contractName}" must be PascalCase`);
+  }
+  const exampleName = toKebabCase(contractName);
+  if (registry.examples[exampleName]) {
+    issues.push(`example "${exampleName}" already exists (${registry.examples[exampleName].contract})`);
+  }
+  if (!NAME_PATTERN.test(category)) {
+    issues.push(`category "${category}" must be kebab-case`);
+  }
+  if (options.domain !== undefined && !NAME_PATTERN.test(options.domain)) {
+    issues.push(`domain "${options.domain}" must be kebab-case`);
+  }
+  const { contractFile, testFile } = getNewExampleFiles(options);
+  for (const file of [contractFile, testFile]) {
+    if (fs.existsSync(path.join(REPO_ROOT, file))) {
+      issues.push(`${file} already exists`);
+    }
+  }
+
+  if (fields.length === 0) {
+    issues.push("at least one encrypted field is required");
+  }
+  const seen = new Set<string>();
+  for (const field of fields) {
+    if (!FIELD_TYPES.includes(field.type)) {
+      issues.push(`field "${field.name}": unknown type "${field.type}" (expected one of: ${FIELD_TYPES.join(", ")})`);
+    }
+    if (!FIELD_NAME_PATTERN.test(field.name)) {
+      issues.push(`field "${field.name}": name must be camelCase`);
+    } else if (seen.has(field.name)) {
+      issues.push(`field "${field.name}" is declared twice`);
+    }
+    seen.add(field.name);
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Cannot create ${contractName}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+  }
+}
+
+function getFieldContext(field: EncryptedField): Record<string, unknown> {
+  const baseType = field.type.slice(1) as EncryptedInputType;
+  const Name = `${field.name[0].toUpperCase()}${field.name.slice(1)}`;
+  const sample = baseType === "bool" ? "true" : baseType === "address" ? "signers[2].address" : "42";
+  return {
+    type: field.type,
+    externalType: `externalE${baseType}`,
+    name: field.name,
+    Name,
+    title: toTitleCase(Name),
+    label: toTitleCase(Name).toLowerCase(),
+    variable: `encrypted${Name}`,
+    event: `${Name}Updated`,
+    numeric: NUMERIC_TYPES.includes(baseType),
+    inputMethod: ENCRYPTED_INPUT_METHODS[baseType],
+    decryptMethod: `userDecryptE${baseType}`,
+    sample,
+    check:
+      baseType === "address"
+        ? `expect(decrypted.toLowerCase()).to.equal(${sample}.toLowerCase());`
+        : `expect(decrypted).to.equal(${sample});`,
+  };
+}
+
+function joinLabels(labels: string[]): string {
+  return labels.length > 1 ? `${labels.slice(0, -1).join(", ")} and ${labels[labels.length - 1]}` : labels[0];
+}
+
+/**
+ * Render the contract and test of a new example and plan the repository
+ * changes: both files and the docs page are created, and registry.json and
+ * docs/SUMMARY.md are updated.
+ */
+export function planNewExample(
+  registry: Registry,
+  options: NewExampleOptions,
+  loader: TemplateLoader = createTemplateLoader()
+): NewExamplePlan {
+  validateNewExample(registry, options);
+
+  const { contractName, category, fields } = options;
+  const exampleName = toKebabCase(contractName);
+  const { contractFile, testFile } = getNewExampleFiles(options);
+  const labels = joinLabels(fields.map((field) => toTitleCase(field.name).toLowerCase()));
+  const fieldTypes = [...new Set(fields.map((field) => field.type))];
+
+  const context = {
+    contractName,
+    category,
+    summary: `Per-account encrypted ${labels}`,
+    notice: `This contract demonstrates encrypted ${labels} with FHE inputs and per-account permissions`,
+    imports: `{FHE, ${fieldTypes.flatMap((type) => [type, `externalE${type.slice(1)}`]).join(", ")}}`,
+    fields: fields.map(getFieldContext),
+  };
+  const contractCode = renderTemplate("new/contract.sol.tpl", context, loader);
+  const testCode = renderTemplate("new/test.ts.tpl", context, loader);
+
+  // Registry entries, and the registry as it will be loaded once they are written
+  let registrySource = fs.readFileSync(REGISTRY_PATH, "utf-8");
+  const categories = { ...registry.categories };
+  if (!categories[category]) {
+    const title = options.categoryTitle ?? toTitleCase(category.replace(/(?:^|-)(\w)/g, (_, c: string) => c.toUpperCase()));
+    const description = options.categoryDescription ?? `${title} examples`;
+    categories[category] = { title, description, deploy: {} };
+    registrySource = addRegistryEntry(registrySource, "categories", category, { title, description });
+  }
+  const tags = [options.domain ?? category, ...fieldTypes];
+  registrySource = addRegistryEntry(registrySource, "examples", exampleName, {
+    ...(options.description ? { description: options.description } : {}),
+    tags,
+  });
+  const example: ExampleConfig = {
+    title: toTitleCase(contractName),
+    summary: context.summary,
+    description: options.description ?? context.notice,
+    category,
+    contract: contractFile,
+    test: testFile,
+    tags,
+    dependencies: {},
+    compatibility: {},
+    deploy: emptyDeployConfig(),
+  };
+  const updated: Registry = { ...registry, categories, examples: { ...registry.examples, [exampleName]: example } };
+
+  const operations: FileOperation[] = [
+    { path: contractFile, action: "create", after: contractCode },
+    { path: testFile, action: "create", after: testCode },
+    {
+      path: `docs/${getDocFileName(exampleName)}`,
+      action: "create",
+      after: generateGitBookMarkdown(exampleName, example, contractCode, testCode, {
+        related: getRelatedExamples(updated, exampleName),
+      }),
+    },
+    {
+      path: path.relative(REPO_ROOT, REGISTRY_PATH).split(path.sep).join("/"),
+      action: "update",
+      before: fs.readFileSync(REGISTRY_PATH, "utf-8"),
+      after: registrySource,
+    },
+  ];
+
+  // SUMMARY.md is only rewritten while it is the generated one; a hand-edited index is left alone.
+  // Line endings are not compared, as in generate-docs --check, and a CRLF index stays CRLF.
+  const warnings: string[] = [];
+  const summaryPath = path.join(REPO_ROOT, "docs", "SUMMARY.md");
+  const summary = fs.existsSync(summaryPath) ? fs.readFileSync(summaryPath, "utf-8") : undefined;
+  if (summary === undefined || summary.replace(/\r\n/g, "\n") === renderSummary(registry)) {
+    const eol = summary?.includes("\r\n") ? "\r\n" : "\n";
+    operations.push({
+      path: "docs/SUMMARY.md",
+      action: summary === undefined ? "create" : "update",
+      before: summary,
+      after: renderSummary(updated).replace(/\n/g, eol),
+    });
+  } else {
+    warnings.push(
+      `docs/SUMMARY.md differs from the generated index, so it was not changed; ` +
+        `add [${example.title}](${getDocFileName(exampleName)}) to it`
+    );
+  }
+
+  return { exampleName, contractFile, testFile, operations, warnings };
+}
+
+/**
+ * Create a new example in the repository, logging each step. With `dryRun`
+ * the planned changes are printed instead. Once written, the registry is
+ * reloaded to check that the example is discovered.
+ */
+export function createNewExample(registry: Registry, options: NewExampleOptions, dryRun: boolean): NewExamplePlan {
+  log("Step 1: Planning example files...", "blue");
+  const plan = planNewExample(registry, options);
+  log(`  ✓ ${options.contractName} (${plan.exampleName}) in category ${options.category}`, "green");
+  if (!registry.categories[options.category]) {
+    log(`  ✓ New category: ${options.category}`, "green");
+  }
+  for (const file of [plan.contractFile, plan.testFile]) {
+    if (!fs.existsSync(path.join(REPO_ROOT, path.dirname(file)))) {
+      log(`  ✓ New directory: ${path.posix.dirname(file)}/`, "green");
+    }
+  }
+  options.fields.forEach((field) => log(`  ✓ ${field.type} ${field.name}`, "green"));
+  plan.warnings.forEach((warning) => log(`  ⚠ ${warning}`, "yellow"));
+
+  if (dryRun) {
+    log("Step 2: Planned changes (dry run)...", "blue");
+    reportWriteOperations(plan.operations);
+    log("Dry run: nothing was written", "yellow");
+    return plan;
+  }
+
+  log("Step 2: Writing files...", "blue");
+  applyWriteOperations(REPO_ROOT, plan.operations);
+  for (const operation of plan.operations) {
+    if (operation.action === "create" || operation.action === "update") {
+      log(`  ✓ ${operation.action === "create" ? "Created" : "Updated"} ${operation.path}`, "green");
+    }
+  }
+
+  log("Step 3: Checking the registry...", "blue");
+  const reloaded = loadRegistry();
+  if (!reloaded.examples[plan.exampleName]) {
+    const warnings = reloaded.warnings.filter((warning) => warning.includes(plan.contractFile));
+    throw new Error(
+      `${plan.exampleName} was written but is not discovered${warnings.length > 0 ? `: ${warnings.join("; ")}` : ""}`
+    );
+  }
+  log(`  ✓ ${plan.exampleName} is registered`, "green");
+
+  return plan;
+}
@@ -0,0 +1,213 @@
+import * as path from "path";
+import * as ts from "typescript";
+import { REPO_ROOT } from "./registry";
+import { SolidityFunction } from "./solidity";
+
+/**
+ * Test Snippets
+ * Focused snippets taken from an example's test file for its docs page:
+ * named regions between `// #region name` and `// #endregion` comments, and
+ * the `it("✓ …")` (correct usage) and `it("✗ …")` (common pitfall) cases.
+ * Each snippet is attributed to the contract function it exercises.
+ */
+
+export type SnippetKind = "region" | "correct" | "pitfall";
+
+export interface TestSnippet {
+  kind: SnippetKind;
+  /** Region name or test title, without the ✓/✗ mark */
+  caption: string;
+  /** Dedented source, without region markers */
+  code: string;
+  /** 1-based line the snippet starts on in the test file */
+  line: number;
+  /** Contract function the snippet exercises, when it calls one */
+  function?: string;
+}
+
+const REGION_BEGIN = /^\s*\/\/\s*#region\b[ \t]*(.*?)\s*$/;
+const REGION_END = /^\s*\/\/\s*#endregion\b/;
+const CASE_MARKS: Record<string, SnippetKind> = { "✓": "correct", "✗": "pitfall" };
+
+export class SnippetError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly line: number,
+    message: string
+  ) {
+    super(`${path.relative(REPO_ROOT, file)}:${line}: ${message}`);
+    this.name = "SnippetError";
+  }
+}
+
+function isRegionMarker(line: string): boolean {
+  return REGION_BEGIN.test(line) || REGION_END.test(line);
+}
+
+/**
+ * Source without `// #region` and `// #endregion` lines, for pages that
+ * show a whole test file.
+ */
+export function stripRegionMarkers(source: string): string {
+  return source
+    .split("\n")
+    .filter((line) => !isRegionMarker(line))
+    .join("\n");
+}
+
+function dedent(lines: string[]): string {
+  const code = lines.filter((line) => !isRegionMarker(line));
+  const indents = code.filter((line) => line.trim()).map((line) => line.match(/^\s*/)![0].length);
+  const indent = indents.length > 0 ? Math.min(...indents) : 0;
+  return code
+    .map((line) => line.slice(indent))
+    .join("\n")
+    .trim();
+}
+
+/** "encrypt-input" → "Encrypt input" */
+function toCaption(name: string): string {
+  const words = name.replace(/[-_]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * The function a snippet exercises, judged from its first `expect(...)`: the
+ * contract call inside it (an asserted result or an expected revert), else
+ * the call whose result the asserted variable holds, else the last contract
+ * call before it. Snippets without `expect` go to their last contract call.
+ */
+function getExercisedFunction(code: string, functions: SolidityFunction[]): string | undefined {
+  const source = ts.createSourceFile("snippet.ts", code, ts.ScriptTarget.Latest, true);
+  const calls: { name: string; start: number; end: number }[] = [];
+  const declarations: ts.VariableDeclaration[] = [];
+  let firstExpect: ts.CallExpression | undefined;
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      if (ts.isIdentifier(node.expression) && node.expression.text === "expect") {
+        firstExpect ??= node;
+      } else if (ts.isPropertyAccessExpression(node.expression)) {
+        const name = node.expression.name.text;
+        if (functions.some((fn) => fn.name === name)) {
+          calls.push({ name, start: node.getStart(source), end: node.end });
+        }
+      }
+    } else if (ts.isVariableDeclaration(node) && node.initializer) {
+      declarations.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  const within = (node: ts.Node) => calls.filter((call) => call.start >= node.getStart(source) && call.end <= node.end);
+  if (!firstExpect) {
+    return calls[calls.length - 1]?.name;
+  }
+  const expected = firstExpect;
+
+  // The call in an expression, or in the initializers of the variables it reads:
+  // `const total = await contract.getTotal(); expect(await decrypt(total))` asserts getTotal
+  const findAsserted = (node: ts.Node, seen: Set<string>): string | undefined => {
+    const call = within(node)[0];
+    if (call) {
+      return call.name;
+    }
+    const names: string[] = [];
+    const collect = (child: ts.Node) => {
+      const isMember = ts.isPropertyAccessExpression(child.parent) && child.parent.name === child;
+      if (ts.isIdentifier(child) && !isMember && !seen.has(child.text)) {
+        names.push(child.text);
+      }
+      ts.forEachChild(child, collect);
+    };
+    collect(node);
+    for (const name of names) {
+      const binds = (binding: ts.BindingName): boolean =>
+        ts.isIdentifier(binding)
+          ? binding.text === name
+          : binding.elements.some((element) => !ts.isOmittedExpression(element) && binds(element.name));
+      const declaration = declarations
+        .filter((candidate) => candidate.end < node.getStart(source) && binds(candidate.name))
+        .pop();
+      const found = declaration && findAsserted(declaration.initializer!, new Set([...seen, ...names]));
+      if (found) {
+        return found;
+      }
+    }
+    return undefined;
+  };
+
+  return (
+    findAsserted(expected.arguments[0] ?? expected, new Set()) ??
+    calls.filter((call) => call.end <= expected.getStart(source)).pop()?.name
+  );
+}
+
+function findRegions(lines: string[], file: string): Omit<TestSnippet, "function">[] {
+  const regions: Omit<TestSnippet, "function">[] = [];
+  const open: { name: string; line: number }[] = [];
+  lines.forEach((line, i) => {
+    const begin = line.match(REGION_BEGIN);
+    if (begin) {
+      if (!begin[1]) {
+        throw new SnippetError(file, i + 1, "#region needs a name");
+      }
+      open.push({ name: begin[1], line: i + 1 });
+    } else if (REGION_END.test(line)) {
+      const region = open.pop();
+      if (!region) {
+        throw new SnippetError(file, i + 1, "#endregion without a matching #region");
+      }
+      regions.push({
+        kind: "region",
+        caption: toCaption(region.name),
+        code: dedent(lines.slice(region.line, i)),
+        line: region.line,
+      });
+    }
+  });
+  if (open.length > 0) {
+    throw new SnippetError(file, open[open.length - 1].line, `#region ${open[open.length - 1].name} is never closed`);
+  }
+  return regions.sort((a, b) => a.line - b.line);
+}
+
+function findCases(source: string, lines: string[], file: string): Omit<TestSnippet, "function">[] {
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true);
+  const cases: Omit<TestSnippet, "function">[] = [];
+  const visit = (node: ts.Node) => {
+    const title = ts.isCallExpression(node) ? node.arguments[0] : undefined;
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === "it" &&
+      title &&
+      ts.isStringLiteralLike(title)
+    ) {
+      const kind = CASE_MARKS[title.text.trim().charAt(0)];
+      if (kind) {
+        const start = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line;
+        const end = sourceFile.getLineAndCharacterOfPosition(node.end).line;
+        const code = dedent(lines.slice(start, end + 1));
+        cases.push({ kind, caption: title.text.trim().slice(1).trim(), code, line: start + 1 });
+      }
+      return;
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return cases;
+}
+
+/**
+ * The snippets of a test file, in file order: regions first, then test
+ * cases. Throws on unnamed, unclosed or unopened regions.
+ */
+export function extractTestSnippets(source: string, file: string, functions: SolidityFunction[] = []): TestSnippet[] {
+  const normalized = source.replace(/\r\n/g, "\n");
+  const lines = normalized.split("\n");
+  return [...findRegions(lines, file), ...findCases(normalized, lines, file)].map((snippet) => ({
+    ...snippet,
+    function: getExercisedFunction(snippet.code, functions),
+  }));
+}
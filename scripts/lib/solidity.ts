@@ -0,0 +1,426 @@
+import * as fs from "fs";
+import { parse, visit } from "@solidity-parser/parser";
+import type {
+  ASTNode,
+  BaseASTNode,
+  ContractDefinition,
+  CustomErrorDefinition,
+  EventDefinition,
+  FunctionDefinition,
+  ImportDirective,
+  ModifierDefinition,
+  TypeName,
+  VariableDeclaration,
+} from "@solidity-parser/parser/dist/src/ast-types";
+
+/**
+ * Solidity Source Model
+ * AST-based description of a Solidity file, shared by the scaffolding and
+ * documentation scripts. Built with @solidity-parser/parser so interfaces,
+ * libraries, abstract contracts, multi-contract files and commented-out code
+ * are handled correctly.
+ */
+
+export interface NatSpec {
+  title?: string;
+  notice?: string;
+  dev?: string;
+  params: Record<string, string>;
+  returns: string[];
+  custom: Record<string, string>;
+}
+
+export interface SolidityParameter {
+  name: string;
+  type: string;
+  indexed?: boolean;
+}
+
+/** A way a function body can revert: a `require`/`revert` message or a custom error */
+export interface SolidityRevert {
+  kind: "message" | "error";
+  /** The message, or the custom error's name */
+  value: string;
+}
+
+export interface SolidityFunction {
+  name: string;
+  visibility: "external" | "public";
+  stateMutability: string | null;
+  parameters: SolidityParameter[];
+  returns: SolidityParameter[];
+  modifiers: string[];
+  /** Reverts written in the function's own body, in source order */
+  reverts: SolidityRevert[];
+  /** Names of the events the function's own body emits, in source order */
+  emits: string[];
+  natspec: NatSpec;
+}
+
+export interface SolidityModifier {
+  name: string;
+  reverts: SolidityRevert[];
+  natspec: NatSpec;
+}
+
+export interface SolidityEvent {
+  name: string;
+  parameters: SolidityParameter[];
+  natspec: NatSpec;
+}
+
+export interface SolidityError {
+  name: string;
+  parameters: SolidityParameter[];
+  natspec: NatSpec;
+}
+
+export interface SolidityImport {
+  path: string;
+  symbols: string[];
+  unitAlias: string | null;
+}
+
+export type ContractKind = "contract" | "abstract" | "interface" | "library";
+
+export interface SolidityContract {
+  name: string;
+  kind: ContractKind;
+  baseContracts: string[];
+  constructorParameters: SolidityParameter[];
+  functions: SolidityFunction[];
+  modifiers: SolidityModifier[];
+  events: SolidityEvent[];
+  errors: SolidityError[];
+  fheTypes: string[];
+  natspec: NatSpec;
+}
+
+export interface SoliditySource {
+  path: string;
+  pragma: string | null;
+  imports: SolidityImport[];
+  contracts: SolidityContract[];
+  fheTypes: string[];
+}
+
+export class SolidityParseError extends Error {
+  constructor(public readonly filePath: string, message: string) {
+    super(`${filePath}: ${message}`);
+    this.name = "SolidityParseError";
+  }
+}
+
+const FHE_TYPE_PATTERN = /^(?:e|externalE)(?:bool|address|uint\d+|int\d+|bytes\d+)$/;
+
+export function isFheType(type: string): boolean {
+  return FHE_TYPE_PATTERN.test(type);
+}
+
+/**
+ * Parse the body of a `/** ... *\/` comment or a run of `///` lines.
+ * Multi-line tag values are joined with spaces; repeated tags are concatenated.
+ */
+export function parseNatSpec(comment: string): NatSpec {
+  const natspec: NatSpec = { params: {}, returns: [], custom: {} };
+  const lines = comment
+    .replace(/^\s*\/\*\*/, "")
+    .replace(/\*\/\s*$/, "")
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^\s*(?:\/\/\/|\*)?\s?/, "").trim());
+
+  const entries: Array<{ tag: string; value: string }> = [];
+  for (const line of lines) {
+    const tagMatch = line.match(/^@([\w:-]+)\s*(.*)$/);
+    if (tagMatch) {
+      entries.push({ tag: tagMatch[1], value: tagMatch[2] });
+    } else if (line.length > 0) {
+      if (entries.length === 0) {
+        entries.push({ tag: "notice", value: "" });
+      }
+      const last = entries[entries.length - 1];
+      last.value = `${last.value} ${line}`.trim();
+    }
+  }
+
+  for (const { tag, value: rawValue } of entries) {
+    const value = rawValue.trim();
+    if (!value) {
+      continue;
+    }
+    if (tag === "title" || tag === "notice" || tag === "dev") {
+      natspec[tag] = natspec[tag] ? `${natspec[tag]} ${value}` : value;
+    } else if (tag === "param") {
+      const [name, ...rest] = value.split(/\s+/);
+      natspec.params[name] = rest.join(" ");
+    } else if (tag === "return") {
+      natspec.returns.push(value);
+    } else if (tag.startsWith("custom:")) {
+      natspec.custom[tag.slice("custom:".length)] = value;
+    }
+  }
+
+  return natspec;
+}
+
+interface SourceComment {
+  type: "LineComment" | "BlockComment";
+  value: string;
+  range: [number, number];
+}
+
+/**
+ * Find the NatSpec comment that directly precedes a node: either a single
+ * `/** *\/` block or a contiguous run of `///` lines, separated from the node
+ * by whitespace only.
+ */
+function natspecFor(node: BaseASTNode, source: string, comments: SourceComment[]): NatSpec {
+  const empty = parseNatSpec("");
+  if (!node.range) {
+    return empty;
+  }
+
+  let end = node.range[0];
+  const lines: string[] = [];
+  for (let i = comments.length - 1; i >= 0; i--) {
+    const comment = comments[i];
+    if (comment.range[1] > end) {
+      continue;
+    }
+    if (source.slice(comment.range[1], end).trim().length > 0) {
+      break;
+    }
+    if (comment.type === "BlockComment") {
+      if (lines.length === 0 && comment.value.startsWith("*")) {
+        return parseNatSpec(`/*${comment.value}*/`);
+      }
+      break;
+    }
+    if (!comment.value.startsWith("/")) {
+      break;
+    }
+    lines.unshift(`///${comment.value.slice(1)}`);
+    end = comment.range[0];
+  }
+
+  return lines.length > 0 ? parseNatSpec(lines.join("\n")) : empty;
+}
+
+export function typeToString(typeName: TypeName | null): string {
+  if (!typeName) {
+    return "";
+  }
+  switch (typeName.type) {
+    case "ElementaryTypeName":
+      return typeName.stateMutability ? `${typeName.name} ${typeName.stateMutability}` : typeName.name;
+    case "UserDefinedTypeName":
+      return typeName.namePath;
+    case "ArrayTypeName": {
+      const length =
+        typeName.length && typeName.length.type === "NumberLiteral" ? typeName.length.number : "";
+      return `${typeToString(typeName.baseTypeName)}[${length}]`;
+    }
+    case "Mapping":
+      return `mapping(${typeToString(typeName.keyType)} => ${typeToString(typeName.valueType)})`;
+    case "FunctionTypeName":
+      return "function";
+    default:
+      return "";
+  }
+}
+
+function toParameters(declarations: VariableDeclaration[] | null): SolidityParameter[] {
+  return (declarations ?? []).map((declaration) => ({
+    name: declaration.name ?? "",
+    type: typeToString(declaration.typeName),
+    ...(declaration.isIndexed ? { indexed: true } : {}),
+  }));
+}
+
+function collectFheTypes(node: ASTNode): string[] {
+  const types = new Set<string>();
+  visit(node, {
+    ElementaryTypeName: (typeNode) => {
+      if (isFheType(typeNode.name)) {
+        types.add(typeNode.name);
+      }
+    },
+    UserDefinedTypeName: (typeNode) => {
+      if (isFheType(typeNode.namePath)) {
+        types.add(typeNode.namePath);
+      }
+    },
+  });
+  return [...types].sort();
+}
+
+function getCalleeName(call: ASTNode): string | undefined {
+  if (call.type !== "FunctionCall") {
+    return undefined;
+  }
+  const callee = call.expression;
+  return callee.type === "Identifier" ? callee.name : callee.type === "MemberAccess" ? callee.memberName : undefined;
+}
+
+/**
+ * The reverts and emitted events of a function or modifier body. Calls to
+ * other functions are not followed.
+ */
+function collectBodyEffects(body: ASTNode | null): { reverts: SolidityRevert[]; emits: string[] } {
+  const reverts: SolidityRevert[] = [];
+  const emits: string[] = [];
+  const addRevert = (revert: SolidityRevert) => {
+    if (!reverts.some((known) => known.kind === revert.kind && known.value === revert.value)) {
+      reverts.push(revert);
+    }
+  };
+  const addReason = (reason: ASTNode | undefined) => {
+    const error = reason && getCalleeName(reason);
+    if (reason?.type === "StringLiteral") {
+      addRevert({ kind: "message", value: reason.value });
+    } else if (error) {
+      addRevert({ kind: "error", value: error });
+    }
+  };
+  if (!body) {
+    return { reverts, emits };
+  }
+
+  visit(body, {
+    FunctionCall: (call) => {
+      const name = getCalleeName(call);
+      if (name === "require" && call.expression.type === "Identifier") {
+        addReason(call.arguments[1]);
+      } else if (name === "revert" && call.expression.type === "Identifier") {
+        addReason(call.arguments[0]);
+      }
+    },
+    RevertStatement: (statement) => addReason(statement.revertCall),
+    EmitStatement: (statement) => {
+      const name = getCalleeName(statement.eventCall);
+      if (name && !emits.includes(name)) {
+        emits.push(name);
+      }
+    },
+  });
+  return { reverts, emits };
+}
+
+function toContract(node: ContractDefinition, source: string, comments: SourceComment[]): SolidityContract {
+  const contract: SolidityContract = {
+    name: node.name,
+    kind: node.kind as ContractKind,
+    baseContracts: node.baseContracts.map((base) => base.baseName.namePath),
+    constructorParameters: [],
+    functions: [],
+    modifiers: [],
+    events: [],
+    errors: [],
+    fheTypes: collectFheTypes(node),
+    natspec: natspecFor(node, source, comments),
+  };
+
+  for (const subNode of node.subNodes as ASTNode[]) {
+    if (subNode.type === "FunctionDefinition") {
+      const fn = subNode as FunctionDefinition;
+      if (fn.isConstructor) {
+        contract.constructorParameters = toParameters(fn.parameters);
+        continue;
+      }
+      const isExposed = fn.visibility === "external" || fn.visibility === "public";
+      if (!fn.name || !isExposed) {
+        continue;
+      }
+      contract.functions.push({
+        name: fn.name,
+        visibility: fn.visibility as "external" | "public",
+        stateMutability: fn.stateMutability,
+        parameters: toParameters(fn.parameters),
+        returns: toParameters(fn.returnParameters),
+        modifiers: fn.modifiers.map((modifier) => modifier.name),
+        ...collectBodyEffects(fn.body),
+        natspec: natspecFor(fn, source, comments),
+      });
+    } else if (subNode.type === "ModifierDefinition") {
+      const modifier = subNode as ModifierDefinition;
+      contract.modifiers.push({
+        name: modifier.name,
+        reverts: collectBodyEffects(modifier.body).reverts,
+        natspec: natspecFor(modifier, source, comments),
+      });
+    } else if (subNode.type === "EventDefinition") {
+      const event = subNode as EventDefinition;
+      contract.events.push({
+        name: event.name,
+        parameters: toParameters(event.parameters),
+        natspec: natspecFor(event, source, comments),
+      });
+    } else if (subNode.type === "CustomErrorDefinition") {
+      const error = subNode as CustomErrorDefinition;
+      contract.errors.push({
+        name: error.name,
+        parameters: toParameters(error.parameters),
+        natspec: natspecFor(error, source, comments),
+      });
+    }
+  }
+
+  return contract;
+}
+
+export function parseSolidity(source: string, filePath: string = "<source>"): SoliditySource {
+  let ast: ReturnType<typeof parse>;
+  try {
+    ast = parse(source, { range: true, comments: true });
+  } catch (error) {
+    throw new SolidityParseError(filePath, (error as Error).message);
+  }
+
+  const comments = (ast.comments ?? []) as SourceComment[];
+  const model: SoliditySource = {
+    path: filePath,
+    pragma: null,
+    imports: [],
+    contracts: [],
+    fheTypes: collectFheTypes(ast),
+  };
+
+  for (const child of ast.children) {
+    if (child.type === "PragmaDirective" && child.name === "solidity") {
+      model.pragma = child.value;
+    } else if (child.type === "ImportDirective") {
+      const directive = child as ImportDirective;
+      model.imports.push({
+        path: directive.path,
+        symbols: (directive.symbolAliases ?? []).map(([symbol]) => symbol),
+        unitAlias: directive.unitAlias,
+      });
+    } else if (child.type === "ContractDefinition") {
+      model.contracts.push(toContract(child, source, comments));
+    }
+  }
+
+  return model;
+}
+
+export function parseSolidityFile(filePath: string): SoliditySource {
+  return parseSolidity(fs.readFileSync(filePath, "utf-8"), filePath);
+}
+
+/**
+ * The deployable contract a file is "about": a concrete contract named after
+ * the file if there is one, otherwise the last concrete contract declared.
+ */
+export function getMainContract(model: SoliditySource): SolidityContract | undefined {
+  const concrete = model.contracts.filter((contract) => contract.kind === "contract");
+  const fileName = model.path.replace(/^.*[\\/]/, "").replace(/\.sol$/, "");
+  return concrete.find((contract) => contract.name === fileName) ?? concrete[concrete.length - 1];
+}
+
+export function loadMainContract(filePath: string): SolidityContract {
+  const contract = getMainContract(parseSolidityFile(filePath));
+  if (!contract) {
+    throw new SolidityParseError(filePath, "no deployable contract found");
+  }
+  return contract;
+}
@@ -0,0 +1,318 @@
+import * as fs from "fs";
+import * as path from "path";
+import { spawnSync } from "child_process";
+import { REPO_ROOT } from "./registry";
+import { log } from "./log";
+import { listProjectFiles } from "./scaffold";
+
+/**
+ * Project Templates
+ * Generated projects start from a template variant: a `fhevm-<name>-template`
+ * directory next to fhevm-hardhat-template (the "hardhat" variant) holding a
+ * `template.json` manifest. The manifest says which files to copy, where
+ * contracts, tests and deploy scripts go, how contracts are deployed, which
+ * files are rendered as templates (templating.ts) and which commands to run
+ * once the project is written. A variant can extend another one and only
+ * carry the files it changes; its package.json only lists the fields it
+ * changes, merged over the package.json it inherits.
+ */
+
+export const DEFAULT_TEMPLATE = "hardhat";
+export const TEMPLATE_MANIFEST_FILE = "template.json";
+export const PACKAGE_JSON_FILE = "package.json";
+
+/**
+ * How generated projects deploy their contracts:
+ * - hardhat-deploy: one DeployFunction module per contract in `layout.deploy`
+ * - scripts: a single `hardhat run` script, `<layout.deploy>/deploy.ts`
+ * - none: no deployment code
+ */
+export type DeployKind = "hardhat-deploy" | "scripts" | "none";
+
+export const DEPLOY_KINDS: DeployKind[] = ["hardhat-deploy", "scripts", "none"];
+
+export interface TemplateLayout {
+  /** Directory receiving the Solidity sources (Hardhat `paths.sources`) */
+  contracts: string;
+  /** Directory receiving the tests (Hardhat `paths.tests`) */
+  tests: string;
+  /** Directory receiving the deployment code */
+  deploy: string;
+}
+
+export interface TemplateManifest {
+  description: string;
+  /** Variant whose files and settings this one starts from */
+  extends?: string;
+  /** Glob patterns of the files to copy (default: all) */
+  files: string[];
+  /** Glob patterns of files not to copy, including inherited ones */
+  exclude: string[];
+  layout: TemplateLayout;
+  deploy: DeployKind;
+  /** Glob patterns of the files rendered with the template engine, `{{name}}` placeholders and all */
+  placeholders: string[];
+  hooks: {
+    /** Shell commands run in the project directory after it is written */
+    afterWrite: string[];
+  };
+}
+
+export interface ProjectTemplate {
+  name: string;
+  manifest: TemplateManifest;
+  /** POSIX path in the project → absolute path of the file to copy */
+  files: Map<string, string>;
+  /**
+   * package.json of this variant and of the variants it extends, base first.
+   * Each is merged over the ones before it with `mergeJson`.
+   */
+  packageJson: string[];
+}
+
+/** Values available to the `placeholders` files */
+export interface TemplateVariables {
+  projectName: string;
+  title: string;
+  description: string;
+  network: string;
+  template: string;
+  year: string;
+  layout: TemplateLayout;
+  deploy: DeployKind;
+}
+
+export class TemplateError extends Error {
+  constructor(
+    public readonly template: string,
+    public readonly issues: string[]
+  ) {
+    super(`Invalid template "${template}":\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "TemplateError";
+  }
+}
+
+const DEFAULT_MANIFEST: TemplateManifest = {
+  description: "",
+  files: ["**"],
+  exclude: [],
+  layout: { contracts: "contracts", tests: "test", deploy: "deploy" },
+  deploy: "hardhat-deploy",
+  placeholders: [],
+  hooks: { afterWrite: [] },
+};
+
+const HOOK_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function getTemplateDir(name: string): string {
+  return path.join(REPO_ROOT, `fhevm-${name}-template`);
+}
+
+/**
+ * Names of the template variants found next to the stock template.
+ */
+export function listTemplates(): string[] {
+  return fs
+    .readdirSync(REPO_ROOT)
+    .map((entry) => entry.match(/^fhevm-([a-z0-9-]+)-template$/)?.[1])
+    .filter((name): name is string => !!name && fs.existsSync(path.join(getTemplateDir(name), TEMPLATE_MANIFEST_FILE)))
+    .sort((a, b) => (a === DEFAULT_TEMPLATE ? -1 : b === DEFAULT_TEMPLATE ? 1 : a.localeCompare(b)));
+}
+
+/**
+ * Convert a glob (`*` within a path segment, `**` across segments) to a RegExp.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      source += pattern[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += pattern[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesAny(file: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => globToRegExp(pattern).test(file));
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+/**
+ * Validate a manifest and apply it over `base` (the extended variant's
+ * manifest, or the defaults).
+ */
+function parseManifest(raw: unknown, base: TemplateManifest, issues: string[]): TemplateManifest {
+  if (!isObject(raw)) {
+    issues.push(`${TEMPLATE_MANIFEST_FILE} must be a JSON object`);
+    return base;
+  }
+
+  const manifest: TemplateManifest = {
+    ...base,
+    layout: { ...base.layout },
+    hooks: { ...base.hooks },
+    extends: undefined,
+  };
+
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case "description":
+      case "extends":
+        if (typeof value !== "string") {
+          issues.push(`"${key}" must be a string`);
+        } else {
+          manifest[key] = value;
+        }
+        break;
+      case "files":
+      case "exclude":
+      case "placeholders":
+        if (!isStringArray(value)) {
+          issues.push(`"${key}" must be an array of glob patterns`);
+        } else {
+          manifest[key] = value;
+        }
+        break;
+      case "deploy":
+        if (!DEPLOY_KINDS.includes(value as DeployKind)) {
+          issues.push(`"deploy" must be one of: ${DEPLOY_KINDS.join(", ")}`);
+        } else {
+          manifest.deploy = value as DeployKind;
+        }
+        break;
+      case "layout":
+        if (!isObject(value)) {
+          issues.push(`"layout" must be an object`);
+          break;
+        }
+        for (const [dir, dirPath] of Object.entries(value)) {
+          if (!(dir in manifest.layout)) {
+            issues.push(`unknown layout entry "${dir}" (expected: ${Object.keys(manifest.layout).join(", ")})`);
+          } else if (typeof dirPath !== "string" || !dirPath || path.posix.isAbsolute(dirPath) || dirPath.startsWith("..")) {
+            issues.push(`"layout.${dir}" must be a relative directory`);
+          } else {
+            manifest.layout[dir as keyof TemplateLayout] = path.posix.normalize(dirPath).replace(/\/$/, "");
+          }
+        }
+        break;
+      case "hooks":
+        if (!isObject(value) || Object.keys(value).some((hook) => hook !== "afterWrite")) {
+          issues.push(`"hooks" must be an object with an "afterWrite" list of commands`);
+        } else if (value.afterWrite !== undefined && !isStringArray(value.afterWrite)) {
+          issues.push(`"hooks.afterWrite" must be an array of commands`);
+        } else {
+          manifest.hooks.afterWrite = (value.afterWrite as string[] | undefined) ?? [];
+        }
+        break;
+      default:
+        issues.push(`unknown field "${key}"`);
+    }
+  }
+
+  return manifest;
+}
+
+/**
+ * Load a template variant, resolving the variants it extends.
+ */
+export function loadTemplate(name: string, seen: string[] = []): ProjectTemplate {
+  const dir = getTemplateDir(name);
+  const manifestPath = path.join(dir, TEMPLATE_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`Unknown template "${name}" (available: ${listTemplates().join(", ")})`);
+  }
+  if (seen.includes(name)) {
+    throw new TemplateError(name, [`"extends" cycle: ${[...seen, name].join(" → ")}`]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+  } catch (error) {
+    throw new TemplateError(name, [`cannot parse ${TEMPLATE_MANIFEST_FILE}: ${(error as Error).message}`]);
+  }
+
+  const baseName = isObject(raw) && typeof raw.extends === "string" ? raw.extends : undefined;
+  const base = baseName ? loadTemplate(baseName, [...seen, name]) : undefined;
+
+  const issues: string[] = [];
+  const manifest = parseManifest(raw, base?.manifest ?? DEFAULT_MANIFEST, issues);
+  if (issues.length > 0) {
+    throw new TemplateError(name, issues);
+  }
+  manifest.extends = baseName;
+
+  const files = new Map<string, string>();
+  for (const [file, source] of base?.files ?? []) {
+    if (!matchesAny(file, manifest.exclude)) {
+      files.set(file, source);
+    }
+  }
+  const packageJson = matchesAny(PACKAGE_JSON_FILE, manifest.exclude) ? [] : [...(base?.packageJson ?? [])];
+  for (const file of listProjectFiles(dir)) {
+    if (file !== TEMPLATE_MANIFEST_FILE && matchesAny(file, manifest.files) && !matchesAny(file, manifest.exclude)) {
+      files.set(file, path.join(dir, file));
+      if (file === PACKAGE_JSON_FILE) {
+        packageJson.push(path.join(dir, file));
+      }
+    }
+  }
+
+  return { name, manifest, files, packageJson };
+}
+
+/**
+ * Merge `patch` into `target` (JSON Merge Patch, RFC 7396): objects are
+ * merged key by key, `null` removes a key and any other value replaces it.
+ */
+export function mergeJson(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) {
+    return patch;
+  }
+  const merged: Json = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = mergeJson(merged[key], value);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Run the template's `afterWrite` hooks in `projectDir`. Throws on the first
+ * failing command.
+ */
+export function runTemplateHooks(commands: string[], projectDir: string): void {
+  for (const command of commands) {
+    log(`  $ ${command}`, "blue");
+    const result = spawnSync(command, {
+      cwd: projectDir,
+      shell: true,
+      stdio: "inherit",
+      timeout: HOOK_TIMEOUT_MS,
+    });
+    if (result.status !== 0 || result.error) {
+      throw new Error(`Template hook failed: ${command}${result.error ? ` (${result.error.message})` : ""}`);
+    }
+  }
+}
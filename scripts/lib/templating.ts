@@ -0,0 +1,305 @@
+import * as fs from "fs";
+import * as path from "path";
+import { REPO_ROOT } from "./registry";
+
+/**
+ * Templating
+ * A small Handlebars-like engine for the files the generators write
+ * (READMEs, deploy code, package.json fields), kept in scripts/templates/:
+ *
+ * - `{{name}}`, `{{contract.name}}`: a variable, looked up in the current
+ *   `#each` item first and then in the enclosing scopes; `{{this}}` is the
+ *   current item and `{{@index}}`, `{{@first}}`, `{{@last}}` describe its position
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}`:
+ *   empty arrays, empty strings, 0, false and null are falsy
+ * - `{{#each list}}...{{else}}...{{/each}}`: loop, with an optional body for an empty list
+ * - `{{> name}}`: include `partials/<name>.tpl` with the current scope; a
+ *   partial may not include itself, directly or through other partials
+ * - `{{! comment}}`: ignored
+ *
+ * A block tag alone on its line removes the whole line, so templates can be
+ * laid out readably. Output is never escaped; callers pass text that is
+ * already formatted for the target file.
+ *
+ * Templates can be overridden per example or per category without touching
+ * TypeScript: a file in scripts/templates/examples/<example>/ or
+ * scripts/templates/categories/<category>/ replaces the file of the same
+ * name (partials included) for that example or category.
+ */
+
+// Not derived from REPO_ROOT: registry.ts imports this module (through deploy.ts) before defining it
+export const TEMPLATES_DIR = path.join(__dirname, "..", "templates");
+
+export type TemplateContext = Record<string, unknown>;
+
+export class TemplatingError extends Error {
+  constructor(
+    public readonly file: string,
+    public readonly line: number,
+    message: string
+  ) {
+    super(`${path.relative(REPO_ROOT, file)}:${line}: ${message}`);
+    this.name = "TemplatingError";
+  }
+}
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "variable"; path: string; line: number }
+  | { type: "if" | "unless" | "each"; path: string; line: number; body: Node[]; otherwise: Node[] }
+  | { type: "partial"; name: string; line: number };
+
+type BlockNode = Extract<Node, { body: Node[] }>;
+
+interface CompiledTemplate {
+  file: string;
+  nodes: Node[];
+}
+
+const TAG_PATTERN = /\{\{\s*([#/>!]?)\s*([\s\S]*?)\s*\}\}/g;
+
+function lineAt(source: string, index: number): number {
+  return source.slice(0, index).split("\n").length;
+}
+
+/**
+ * Parse a template into a node tree.
+ */
+export function compileTemplate(source: string, file: string): CompiledTemplate {
+  const root: Node[] = [];
+  const stack: Array<{ node: BlockNode; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.otherwise : top.node.body) : root;
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, content] = match;
+    const line = lineAt(source, match.index);
+    let start = match.index;
+    let end = start + tag.length;
+
+    // A block, else, partial or comment tag alone on its line takes the line with it
+    if (sigil !== "" || content === "else") {
+      const lineStart = source.lastIndexOf("\n", start - 1) + 1;
+      const newline = source.indexOf("\n", end);
+      const lineEnd = newline === -1 ? source.length : newline + 1;
+      if (lineStart >= cursor && !source.slice(lineStart, start).trim() && !source.slice(end, lineEnd).trim()) {
+        start = lineStart;
+        end = lineEnd;
+      }
+    }
+
+    if (start > cursor) {
+      current().push({ type: "text", value: source.slice(cursor, start) });
+    }
+    cursor = end;
+
+    if (sigil === "!") {
+      continue;
+    } else if (sigil === ">") {
+      current().push({ type: "partial", name: content, line });
+    } else if (sigil === "#") {
+      const [kind, blockPath, ...extra] = content.split(/\s+/);
+      if (!["if", "unless", "each"].includes(kind) || !blockPath || extra.length > 0) {
+        throw new TemplatingError(file, line, `invalid block "{{#${content}}}"`);
+      }
+      const node: BlockNode = { type: kind as BlockNode["type"], path: blockPath, line, body: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (sigil === "/") {
+      const top = stack.pop();
+      if (!top || top.node.type !== content) {
+        throw new TemplatingError(file, line, `unexpected "{{/${content}}}"${top ? ` (open block: #${top.node.type})` : ""}`);
+      }
+    } else if (content === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        throw new TemplatingError(file, line, `unexpected "{{else}}"`);
+      }
+      top.inElse = true;
+    } else {
+      if (!/^(?:this|@\w+|[\w-]+(?:\.[\w-]+)*)$/.test(content)) {
+        throw new TemplatingError(file, line, `invalid variable "{{${content}}}"`);
+      }
+      current().push({ type: "variable", path: content, line });
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1].node;
+    throw new TemplatingError(file, open.line, `"{{#${open.type} ${open.path}}}" is never closed`);
+  }
+  if (cursor < source.length) {
+    root.push({ type: "text", value: source.slice(cursor) });
+  }
+  return { file, nodes: root };
+}
+
+interface Scope {
+  data: unknown;
+  meta: Record<string, unknown>;
+}
+
+function hasOwn(object: unknown, key: string): boolean {
+  return typeof object === "object" && object !== null && Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function lookup(scopes: Scope[], variable: string, file: string, line: number): unknown {
+  const top = scopes[scopes.length - 1];
+  if (variable.startsWith("@")) {
+    if (!hasOwn(top.meta, variable.slice(1))) {
+      throw new TemplatingError(file, line, `"${variable}" is only available inside {{#each}}`);
+    }
+    return top.meta[variable.slice(1)];
+  }
+
+  const [first, ...rest] = variable.split(".");
+  let value: unknown;
+  if (first === "this") {
+    value = top.data;
+  } else {
+    // Own properties only, so `{{constructor}}` is not Object's
+    const scope = [...scopes].reverse().find((candidate) => hasOwn(candidate.data, first));
+    if (!scope) {
+      throw new TemplatingError(file, line, `unknown variable "${variable}"`);
+    }
+    value = (scope.data as Record<string, unknown>)[first];
+  }
+  for (const key of rest) {
+    value = hasOwn(value, key) ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return value;
+}
+
+function stringify(value: unknown, variable: string, file: string, line: number): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.join(", ");
+  }
+  if (typeof value === "object") {
+    throw new TemplatingError(file, line, `"${variable}" is an object and cannot be printed`);
+  }
+  return String(value);
+}
+
+export interface TemplateLoader {
+  /** Compiled template `name` (a path relative to scripts/templates/) */
+  load(name: string): CompiledTemplate;
+}
+
+/**
+ * Render `nodes` of `template`. `partials` are the partials being rendered,
+ * outermost first, to report partials that include themselves.
+ */
+function renderNodes(
+  nodes: Node[],
+  scopes: Scope[],
+  template: CompiledTemplate,
+  loader: TemplateLoader,
+  partials: string[] = []
+): string {
+  let output = "";
+  for (const node of nodes) {
+    switch (node.type) {
+      case "text":
+        output += node.value;
+        break;
+      case "variable":
+        output += stringify(lookup(scopes, node.path, template.file, node.line), node.path, template.file, node.line);
+        break;
+      case "if":
+      case "unless": {
+        const condition = isTruthy(lookup(scopes, node.path, template.file, node.line));
+        const branch = condition === (node.type === "if") ? node.body : node.otherwise;
+        output += renderNodes(branch, scopes, template, loader, partials);
+        break;
+      }
+      case "each": {
+        const list = lookup(scopes, node.path, template.file, node.line) ?? [];
+        if (!Array.isArray(list)) {
+          throw new TemplatingError(template.file, node.line, `"${node.path}" is not a list`);
+        }
+        if (list.length === 0) {
+          output += renderNodes(node.otherwise, scopes, template, loader, partials);
+        }
+        list.forEach((item, index) => {
+          const meta = { index, first: index === 0, last: index === list.length - 1 };
+          output += renderNodes(node.body, [...scopes, { data: item, meta }], template, loader, partials);
+        });
+        break;
+      }
+      case "partial": {
+        if (partials.includes(node.name)) {
+          const chain = [...partials, node.name].map((name) => `{{> ${name}}}`).join(" → ");
+          throw new TemplatingError(template.file, node.line, `partial "${node.name}" includes itself (${chain})`);
+        }
+        const partial = loader.load(`partials/${node.name}.tpl`);
+        output += renderNodes(partial.nodes, scopes, partial, loader, [...partials, node.name]);
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Load templates from scripts/templates/, preferring the files found in the
+ * override directories `scopes` (e.g. "examples/encrypted-treasury"), in order.
+ */
+export function createTemplateLoader(scopes: string[] = [], templatesDir: string = TEMPLATES_DIR): TemplateLoader {
+  const cache = new Map<string, CompiledTemplate>();
+  return {
+    load(name: string): CompiledTemplate {
+      const candidates = [...scopes.map((scope) => path.join(templatesDir, scope, name)), path.join(templatesDir, name)];
+      const file = candidates.find((candidate) => fs.existsSync(candidate));
+      if (!file) {
+        throw new Error(`Template not found: ${name} (looked in ${path.relative(REPO_ROOT, templatesDir)})`);
+      }
+      if (!cache.has(file)) {
+        cache.set(file, compileTemplate(fs.readFileSync(file, "utf-8").replace(/\r\n/g, "\n"), file));
+      }
+      return cache.get(file)!;
+    },
+  };
+}
+
+/**
+ * Render template `name` with `context`.
+ */
+export function renderTemplate(name: string, context: TemplateContext, loader: TemplateLoader = createTemplateLoader()): string {
+  const template = loader.load(name);
+  return renderNodes(template.nodes, [{ data: context, meta: {} }], template, loader);
+}
+
+/**
+ * Render a template read from anywhere else, such as a file of a project
+ * template variant. `file` names it in errors; partials still come from
+ * `loader`.
+ */
+export function renderTemplateSource(
+  source: string,
+  file: string,
+  context: TemplateContext,
+  loader: TemplateLoader = createTemplateLoader()
+): string {
+  const template = compileTemplate(source, file);
+  return renderNodes(template.nodes, [{ data: context, meta: {} }], template, loader);
+}
+
+/**
+ * Override directories for an example and/or a category, most specific first.
+ */
+export function getTemplateScopes(exampleName?: string, categoryName?: string): string[] {
+  return [
+    ...(exampleName ? [`examples/${exampleName}`] : []),
+    ...(categoryName ? [`categories/${categoryName}`] : []),
+  ];
+}
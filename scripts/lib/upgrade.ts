@@ -0,0 +1,326 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Registry } from "./registry";
+import { log } from "./log";
+import { mergeText, unifiedDiff } from "./diff";
+import {
+  applyWriteOperations,
+  defaultProjectExtras,
+  FileOperation,
+  planProject,
+  ProjectOptions,
+  ProjectPlan,
+  readPlannedFile,
+} from "./project";
+import {
+  addGenerationManifest,
+  GENERATION_MANIFEST_FILE,
+  GenerationManifest,
+  getBaseCopyPath,
+  hashContent,
+  isGenerationFile,
+} from "./manifest";
+import { parseProjectConfig } from "./wizard";
+
+/**
+ * Upgrades
+ * `create-fhevm-example upgrade` regenerates a project from the current
+ * templates and examples with the options recorded in its generation
+ * manifest. Files the user has not touched are replaced; edited files get a
+ * three-way merge of the user's changes and the generator's, against the
+ * base copy kept in .fhevm/base/. Changes that overlap are written between
+ * conflict markers for the user to resolve.
+ */
+
+/**
+ * What an upgrade does with a generated file:
+ * - create: the file is new in this version
+ * - update: the file was not edited and is replaced
+ * - merge: the file was edited and the new version's changes merged cleanly
+ * - conflict: the edits and the new version's changes overlap
+ * - keep: the file was edited (or deleted) and the new version does not change it
+ * - unchanged: the file is already up to date
+ * - delete: the file was not edited and is no longer generated
+ */
+export type UpgradeAction = "create" | "update" | "merge" | "conflict" | "keep" | "unchanged" | "delete";
+
+export interface UpgradeOperation {
+  /** POSIX path relative to the project */
+  path: string;
+  action: UpgradeAction;
+  /** Content currently on disk */
+  before?: string;
+  /** Content the upgrade writes, absent when the file is left alone */
+  after?: string;
+  /** Why an edited or deleted file was handled the way it was */
+  note?: string;
+}
+
+export interface UpgradePlan {
+  /** Manifest the project was generated with */
+  manifest: GenerationManifest;
+  plan: ProjectPlan;
+  operations: UpgradeOperation[];
+  /** Writes of the new manifest and base copies */
+  bookkeeping: FileOperation[];
+}
+
+const MERGE_LABELS = ["yours", "upgrade"] as const;
+
+/**
+ * Read and validate the generation manifest of a project.
+ */
+export function readGenerationManifest(projectDir: string): GenerationManifest {
+  const manifestPath = path.join(projectDir, GENERATION_MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(
+      `${projectDir} has no ${GENERATION_MANIFEST_FILE}; only projects generated by create-fhevm-example or ` +
+        "create-fhevm-category can be upgraded"
+    );
+  }
+
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(fs.readFileSync(manifestPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Cannot read ${manifestPath}: ${(error as Error).message}`);
+  }
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${manifestPath}: manifest must be a JSON object`);
+  }
+
+  const issues: string[] = [];
+  if (typeof raw.template !== "string") {
+    issues.push(`"template" must be a string`);
+  }
+  const files = raw.files as Record<string, unknown>;
+  if (typeof files !== "object" || files === null || Object.values(files).some((hash) => typeof hash !== "string")) {
+    issues.push(`"files" must map file paths to hashes`);
+  }
+  const source = raw.source as GenerationManifest["source"];
+  if (typeof source !== "object" || source === null) {
+    issues.push(`"source" must be an object`);
+  }
+  let options: ProjectOptions | undefined;
+  try {
+    const config = parseProjectConfig(raw.options, `${manifestPath} (options)`);
+    options = {
+      examples: config.examples ?? [],
+      category: config.category,
+      network: config.network ?? "localhost",
+      extras: config.extras ?? defaultProjectExtras(),
+      template: config.template ?? (raw.template as string),
+      fhevmVersion: config.fhevmVersion,
+      variant: config.variant,
+    };
+  } catch (error) {
+    issues.push((error as Error).message);
+  }
+  if (issues.length > 0 || !options) {
+    throw new Error(
+      `Invalid generation manifest ${manifestPath}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`
+    );
+  }
+
+  return {
+    generatedAt: String(raw.generatedAt ?? ""),
+    source,
+    template: raw.template as string,
+    options,
+    files: files as Record<string, string>,
+  };
+}
+
+function readProjectFile(projectDir: string, file: string): string | undefined {
+  const filePath = path.join(projectDir, file);
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : undefined;
+}
+
+/**
+ * Decide what to do with one file from its recorded hash, its base copy,
+ * its current content and its content in the new version (undefined when
+ * absent).
+ */
+function planFileUpgrade(
+  file: string,
+  recordedHash: string | undefined,
+  base: string | undefined,
+  current: string | undefined,
+  next: string | undefined
+): UpgradeOperation {
+  if (current === undefined) {
+    if (recordedHash === undefined) {
+      return { path: file, action: "create", after: next };
+    }
+    return next === undefined || next === base
+      ? { path: file, action: "keep", note: "deleted in the project" }
+      : { path: file, action: "conflict", note: "deleted in the project but changed by the upgrade; not restored" };
+  }
+
+  const edited = recordedHash === undefined || hashContent(current) !== recordedHash;
+  if (next === undefined) {
+    return edited
+      ? { path: file, action: "keep", before: current, note: "edited in the project; no longer generated" }
+      : { path: file, action: "delete", before: current };
+  }
+  if (current === next) {
+    return { path: file, action: "unchanged", before: current, after: next };
+  }
+  if (!edited) {
+    return { path: file, action: "update", before: current, after: next };
+  }
+  if (recordedHash !== undefined && base === next) {
+    return { path: file, action: "keep", before: current, note: "edited in the project" };
+  }
+
+  // A file that was not generated before has no base, so the whole of it is compared
+  const merged = mergeText(base ?? "", current, next, ...MERGE_LABELS);
+  return merged.conflicts > 0
+    ? {
+        path: file,
+        action: "conflict",
+        before: current,
+        after: merged.text,
+        note: `${merged.conflicts} conflicting change${merged.conflicts === 1 ? "" : "s"}`,
+      }
+    : { path: file, action: "merge", before: current, after: merged.text };
+}
+
+/**
+ * Regenerate the project in `projectDir` with its recorded options and
+ * plan how each generated file is upgraded. Files the project has that were
+ * never generated are left alone.
+ */
+export function planUpgrade(registry: Registry, projectDir: string): UpgradePlan {
+  const manifest = readGenerationManifest(projectDir);
+  const plan = planProject(registry, manifest.options);
+  const next = new Map([...plan.files].map(([file, planned]) => [file, readPlannedFile(planned)]));
+
+  const operations: UpgradeOperation[] = [];
+  const files = [...next.keys(), ...Object.keys(manifest.files).filter((file) => !next.has(file))];
+  for (const file of files.filter((name) => !isGenerationFile(name))) {
+    operations.push(
+      planFileUpgrade(
+        file,
+        manifest.files[file],
+        readProjectFile(projectDir, getBaseCopyPath(file)),
+        readProjectFile(projectDir, file),
+        next.get(file)
+      )
+    );
+  }
+
+  // The new manifest and base copies describe the new version, whatever happened to each file
+  const bookkeeping: FileOperation[] = [];
+  addGenerationManifest(plan, manifest.options);
+  for (const [file, planned] of [...plan.files].filter(([name]) => isGenerationFile(name))) {
+    const before = readProjectFile(projectDir, file);
+    const after = readPlannedFile(planned);
+    const action = before === undefined ? "create" : before === after ? "unchanged" : "update";
+    bookkeeping.push({ path: file, action, before, after });
+  }
+  for (const file of Object.keys(manifest.files).filter((name) => !next.has(name))) {
+    const before = readProjectFile(projectDir, getBaseCopyPath(file));
+    if (before !== undefined) {
+      bookkeeping.push({ path: getBaseCopyPath(file), action: "delete", before });
+    }
+  }
+
+  return { manifest, plan, operations, bookkeeping };
+}
+
+/**
+ * Write an upgrade: new, updated, merged and conflicting files, deletions,
+ * then the new manifest and base copies.
+ */
+export function applyUpgrade(projectDir: string, upgrade: UpgradePlan): void {
+  const writes: FileOperation[] = upgrade.operations.map((operation) => ({
+    path: operation.path,
+    action:
+      operation.action === "delete"
+        ? "delete"
+        : operation.after !== undefined && operation.action !== "unchanged"
+          ? operation.before === undefined
+            ? "create"
+            : "update"
+          : "unchanged",
+    before: operation.before,
+    after: operation.after,
+  }));
+  applyWriteOperations(projectDir, [...writes, ...upgrade.bookkeeping]);
+}
+
+const ACTION_LABELS: Record<UpgradeAction, [string, "green" | "yellow" | "red" | "blue"]> = {
+  create: ["create", "green"],
+  update: ["update", "yellow"],
+  merge: ["merge", "yellow"],
+  conflict: ["conflict", "red"],
+  keep: ["keep", "blue"],
+  unchanged: ["unchanged", "blue"],
+  delete: ["delete", "red"],
+};
+
+/**
+ * Print one line per file, then a unified diff of every file whose content
+ * would change. The manifest and base copies are summed up in one line.
+ */
+export function reportUpgrade(upgrade: UpgradePlan): void {
+  for (const operation of upgrade.operations) {
+    const [label, color] = ACTION_LABELS[operation.action];
+    log(`  ${label.padEnd(9)} ${operation.path}${operation.note ? ` (${operation.note})` : ""}`, color);
+  }
+  const changed = upgrade.bookkeeping.filter((operation) => operation.action !== "unchanged").length;
+  const files = `${changed} file${changed === 1 ? "" : "s"} changed`;
+  log(`  ${"record".padEnd(9)} ${GENERATION_MANIFEST_FILE} and base copies (${files})`, "blue");
+
+  for (const operation of upgrade.operations) {
+    if (operation.after !== undefined && operation.before !== undefined && operation.action !== "unchanged") {
+      log("");
+      log(unifiedDiff(operation.before, operation.after, `a/${operation.path}`, `b/${operation.path}`).trimEnd());
+    }
+  }
+}
+
+export function countUpgradeOperations(operations: UpgradeOperation[], action: UpgradeAction): number {
+  return operations.filter((operation) => operation.action === action).length;
+}
+
+/**
+ * Upgrade the project in `projectDir`, logging each step. With `dryRun` the
+ * planned changes are printed instead. Conflicts are written with markers
+ * and listed; resolving them is up to the user.
+ */
+export function upgradeProject(registry: Registry, projectDir: string, dryRun: boolean): UpgradePlan {
+  log("Step 1: Planning upgrade...", "blue");
+  const upgrade = planUpgrade(registry, projectDir);
+  const { manifest } = upgrade;
+  const selection = manifest.options.category ?? manifest.options.examples.join(", ");
+  log(`  ✓ ${selection} (template: ${manifest.template})`, "green");
+  log(`  Generated from: ${manifest.source.commit ?? "unknown commit"} on ${manifest.generatedAt}`, "cyan");
+  upgrade.plan.warnings.forEach((warning) => log(`  ⚠ ${warning}`, "yellow"));
+
+  if (dryRun) {
+    log(`Step 2: Planned changes in ${projectDir} (dry run)...`, "blue");
+    reportUpgrade(upgrade);
+    log("Dry run: nothing was written", "yellow");
+    return upgrade;
+  }
+
+  log("Step 2: Writing files...", "blue");
+  applyUpgrade(projectDir, upgrade);
+  for (const operation of upgrade.operations.filter((op) => op.action !== "unchanged")) {
+    const [label, color] = ACTION_LABELS[operation.action];
+    log(`  ${label.padEnd(9)} ${operation.path}${operation.note ? ` (${operation.note})` : ""}`, color);
+  }
+
+  const conflicts = countUpgradeOperations(upgrade.operations, "conflict");
+  if (conflicts > 0) {
+    log(
+      `${conflicts} file${conflicts === 1 ? "" : "s"} need${conflicts === 1 ? "s" : ""} manual resolution; ` +
+        `look for <<<<<<< ${MERGE_LABELS[0]} / >>>>>>> ${MERGE_LABELS[1]} markers`,
+      "red"
+    );
+  }
+
+  return upgrade;
+}
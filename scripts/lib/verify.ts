@@ -0,0 +1,157 @@
+import { spawnSync } from "child_process";
+import * as path from "path";
+import { log } from "./log";
+
+/**
+ * Post-generation Verification
+ * Installs dependencies in a generated project, then compiles it and runs the
+ * tests of each example so broken output is caught at generation time.
+ */
+
+export interface VerifyOptions {
+  /** npm cache directory to install from (e.g. a pre-populated CI cache) */
+  cache?: string;
+  /** Registry URL of a local/offline npm mirror */
+  registry?: string;
+  /** Fail instead of reaching the network when a package is not cached */
+  offline?: boolean;
+  /** Stop after compiling (exercises, whose tests fail until they are solved) */
+  skipTests?: boolean;
+}
+
+export type VerifyStep = "install" | "compile" | "test";
+
+export interface StepResult {
+  step: VerifyStep;
+  ok: boolean;
+  output: string;
+}
+
+export interface ExampleVerification {
+  example: string;
+  steps: StepResult[];
+  ok: boolean;
+}
+
+const STEP_TIMEOUT_MS = 15 * 60 * 1000;
+const NPM = process.platform === "win32" ? "npm.cmd" : "npm";
+const NPX = process.platform === "win32" ? "npx.cmd" : "npx";
+
+function run(step: VerifyStep, command: string, args: string[], cwd: string): StepResult {
+  const result = spawnSync(command, args, {
+    cwd,
+    encoding: "utf-8",
+    timeout: STEP_TIMEOUT_MS,
+    maxBuffer: 64 * 1024 * 1024,
+    env: { ...process.env, CI: "1" },
+  });
+
+  const output = [result.stdout, result.stderr, result.error?.message].filter(Boolean).join("\n");
+  return { step, ok: result.status === 0 && !result.error, output };
+}
+
+export function installDependencies(projectDir: string, options: VerifyOptions = {}): StepResult {
+  const args = ["install", "--prefer-offline", "--no-audit", "--no-fund"];
+  if (options.cache) {
+    args.push("--cache", options.cache);
+  }
+  if (options.registry) {
+    args.push("--registry", options.registry);
+  }
+  if (options.offline) {
+    args.push("--offline");
+  }
+  return run("install", NPM, args, projectDir);
+}
+
+/**
+ * Compile a project and run each example's test file in it, unless
+ * `skipTests` is set. Nothing runs after a failed `install`, and no test runs
+ * when compilation fails.
+ */
+function compileAndTest(
+  projectDir: string,
+  tests: Record<string, string>,
+  install: StepResult,
+  skipTests: boolean,
+  label: (example: string) => string = (example) => example
+): ExampleVerification[] {
+  let compile: StepResult = { step: "compile", ok: false, output: "Skipped: dependency installation failed" };
+  if (install.ok) {
+    log("Compiling contracts...", "blue");
+    compile = run("compile", NPX, ["--no-install", "hardhat", "compile"], projectDir);
+  }
+
+  return Object.entries(tests).map(([example, testFile]) => {
+    if (skipTests) {
+      return { example: label(example), steps: [install, compile], ok: install.ok && compile.ok };
+    }
+    let test: StepResult = { step: "test", ok: false, output: "Skipped: compilation failed" };
+    if (compile.ok) {
+      log(`Testing ${label(example)}...`, "blue");
+      test = run("test", NPX, ["--no-install", "hardhat", "test", testFile], projectDir);
+    }
+    const steps = [install, compile, test];
+    return { example: label(example), steps, ok: steps.every((step) => step.ok) };
+  });
+}
+
+/**
+ * Verify a generated project. `tests` maps each example to the test file
+ * (relative to the project) that exercises it; install and compile run once
+ * and their result is shared by every example.
+ */
+export function verifyProject(
+  projectDir: string,
+  tests: Record<string, string>,
+  options: VerifyOptions = {}
+): ExampleVerification[] {
+  log("Installing dependencies...", "blue");
+  return compileAndTest(projectDir, tests, installDependencies(projectDir, options), Boolean(options.skipTests));
+}
+
+/**
+ * Verify a generated workspace: dependencies are installed once at its root,
+ * then every package is compiled and tested on its own. Results are labelled
+ * `<package dir>: <example>`.
+ */
+export function verifyWorkspace(
+  workspaceDir: string,
+  packages: { dir: string; tests: Record<string, string> }[],
+  options: VerifyOptions = {}
+): ExampleVerification[] {
+  log("Installing workspace dependencies...", "blue");
+  const install = installDependencies(workspaceDir, options);
+  return packages.flatMap(({ dir, tests }) => {
+    log(`Verifying ${dir}...`, "blue");
+    const label = (example: string) => `${dir}: ${example}`;
+    return compileAndTest(path.join(workspaceDir, dir), tests, install, Boolean(options.skipTests), label);
+  });
+}
+
+function tail(output: string, lines: number): string {
+  return output.trimEnd().split(/\r?\n/).slice(-lines).join("\n");
+}
+
+/**
+ * Print a pass/fail line per example and the end of the output of the first
+ * failing step. Returns true when every example passed.
+ */
+export function reportVerification(results: ExampleVerification[]): boolean {
+  log(`\n${"=".repeat(60)}`, "cyan");
+  log("Verification summary", "cyan");
+  log(`${"=".repeat(60)}`, "cyan");
+
+  for (const result of results) {
+    const steps = result.steps.map((step) => `${step.step} ${step.ok ? "✓" : "✗"}`).join("  ");
+    log(`  ${result.ok ? "✓" : "✗"} ${result.example.padEnd(30)} ${steps}`, result.ok ? "green" : "red");
+  }
+
+  const failed = results.flatMap((result) => result.steps).find((step) => !step.ok);
+  if (failed) {
+    log(`\nFirst failure (${failed.step}):`, "red");
+    log(tail(failed.output, 30));
+  }
+
+  return !failed;
+}
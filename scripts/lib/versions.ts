@@ -0,0 +1,103 @@
+import * as semver from "semver";
+import type { SolidityContract } from "./solidity";
+
+/**
+ * FHEVM Version Compatibility
+ * The @fhevm/solidity and @fhevm/hardhat-plugin versions each example works
+ * with, and the versions a generated project pins. An example's range comes
+ * from its registry `compatibility` entry or, for @fhevm/solidity, from the
+ * config contract it inherits: `ZamaEthereumConfig` replaced `SepoliaConfig`
+ * in 0.9. The hardhat plugin follows the @fhevm/solidity release line.
+ */
+
+export const FHEVM_SOLIDITY = "@fhevm/solidity";
+export const FHEVM_HARDHAT_PLUGIN = "@fhevm/hardhat-plugin";
+export const COMPATIBILITY_PACKAGES = [FHEVM_SOLIDITY, FHEVM_HARDHAT_PLUGIN];
+
+/** @fhevm/hardhat-plugin releases matching each @fhevm/solidity line, newest first */
+export const COMPATIBILITY_MATRIX: Array<{ solidity: string; hardhatPlugin: string }> = [
+  { solidity: "0.9.x", hardhatPlugin: "0.3.0-1" },
+  { solidity: "0.8.x", hardhatPlugin: "^0.1.0" },
+  { solidity: "0.7.x", hardhatPlugin: "^0.0.1-3" },
+];
+
+/** @fhevm/solidity versions providing each network config contract */
+const CONFIG_CONTRACT_RANGES: Record<string, string> = {
+  ZamaEthereumConfig: ">=0.9.0",
+  SepoliaConfig: "<0.9.0",
+};
+
+export class CompatibilityError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Incompatible FHEVM versions:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "CompatibilityError";
+  }
+}
+
+export function isValidRange(range: string): boolean {
+  return semver.validRange(range) !== null;
+}
+
+export function rangesIntersect(a: string, b: string): boolean {
+  return semver.intersects(a, b, { includePrerelease: true });
+}
+
+/**
+ * The @fhevm/solidity range implied by the config contract `contract`
+ * inherits, with the name of that config contract.
+ */
+export function inferSolidityRange(contract: SolidityContract): { range: string; from: string } | undefined {
+  const config = contract.baseContracts.find((base) => base in CONFIG_CONTRACT_RANGES);
+  return config ? { range: CONFIG_CONTRACT_RANGES[config], from: config } : undefined;
+}
+
+/**
+ * The @fhevm/hardhat-plugin range released alongside `solidity` (a version or range).
+ */
+export function getHardhatPluginRange(solidity: string): string | undefined {
+  return COMPATIBILITY_MATRIX.find((entry) => rangesIntersect(entry.solidity, solidity))?.hardhatPlugin;
+}
+
+/**
+ * Pick the FHEVM package versions of a project made of `examples` (name →
+ * compatibility ranges). `requested` is the @fhevm/solidity version asked
+ * for, which also selects the hardhat plugin from the matrix; without it
+ * the template's pins in `defaults` are kept. Throws a CompatibilityError
+ * listing every example that cannot work with the result.
+ */
+export function resolveFhevmVersions(
+  examples: Record<string, Record<string, string>>,
+  defaults: Record<string, string | undefined>,
+  requested?: string
+): Record<string, string> {
+  const issues: string[] = [];
+  if (requested !== undefined && !isValidRange(requested)) {
+    throw new CompatibilityError([`"${requested}" is not a valid ${FHEVM_SOLIDITY} version`]);
+  }
+
+  const versions: Record<string, string> = {};
+  const solidity = requested ?? defaults[FHEVM_SOLIDITY];
+  if (solidity) {
+    versions[FHEVM_SOLIDITY] = solidity;
+    const plugin = requested ? getHardhatPluginRange(requested) : defaults[FHEVM_HARDHAT_PLUGIN];
+    if (plugin) {
+      versions[FHEVM_HARDHAT_PLUGIN] = plugin;
+    } else if (requested) {
+      issues.push(`no known ${FHEVM_HARDHAT_PLUGIN} release for ${FHEVM_SOLIDITY} ${requested}`);
+    }
+  }
+
+  for (const [exampleName, ranges] of Object.entries(examples)) {
+    for (const [packageName, range] of Object.entries(ranges)) {
+      const version = versions[packageName];
+      if (version && !rangesIntersect(version, range)) {
+        issues.push(`${exampleName} requires ${packageName} ${range}, which excludes ${version}`);
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new CompatibilityError(issues);
+  }
+  return versions;
+}
@@ -0,0 +1,467 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as readline from "readline/promises";
+import { Registry } from "./registry";
+import { colors, log } from "./log";
+import { listProjectFiles } from "./scaffold";
+import { DEFAULT_TEMPLATE, listTemplates, loadTemplate } from "./templates";
+import {
+  defaultProjectExtras,
+  NETWORK_TARGETS,
+  NetworkTarget,
+  OutputOptions,
+  OverwritePolicy,
+  planProject,
+  ProjectExtras,
+  ProjectOptions,
+  renderFileTree,
+} from "./project";
+import { isValidRange } from "./versions";
+import { PROJECT_VARIANTS, ProjectVariant } from "./exercise";
+import { FIELD_TYPES, NewExampleOptions, parseEncryptedField, validateNewExample } from "./skeleton";
+import { WorkspaceOptions } from "./workspace";
+
+/**
+ * Interactive Wizard
+ * Asks which examples or category to generate, where, for which network and
+ * with which extras, previews the file tree, and can save the answers as a
+ * JSON config that `--yes --config <file>` replays without prompting.
+ */
+
+export interface ProjectConfig extends ProjectOptions {
+  /** Output directory, relative to the current directory */
+  output: string;
+}
+
+type Json = Record<string, unknown>;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a project config document (as written by the wizard).
+ */
+export function parseProjectConfig(raw: unknown, source: string): Partial<ProjectConfig> {
+  const issues: string[] = [];
+  const config: Partial<ProjectConfig> = {};
+
+  if (!isObject(raw)) {
+    throw new Error(`${source}: config must be a JSON object`);
+  }
+
+  if (raw.examples !== undefined) {
+    if (!Array.isArray(raw.examples) || raw.examples.some((name) => typeof name !== "string")) {
+      issues.push(`"examples" must be an array of example names`);
+    } else {
+      config.examples = raw.examples as string[];
+    }
+  }
+  for (const key of ["category", "output", "template", "fhevmVersion"] as const) {
+    if (raw[key] !== undefined) {
+      if (typeof raw[key] !== "string") {
+        issues.push(`"${key}" must be a string`);
+      } else {
+        config[key] = raw[key] as string;
+      }
+    }
+  }
+  if (raw.network !== undefined) {
+    if (!NETWORK_TARGETS.includes(raw.network as NetworkTarget)) {
+      issues.push(`"network" must be one of: ${NETWORK_TARGETS.join(", ")}`);
+    } else {
+      config.network = raw.network as NetworkTarget;
+    }
+  }
+  if (raw.variant !== undefined) {
+    if (!PROJECT_VARIANTS.includes(raw.variant as ProjectVariant)) {
+      issues.push(`"variant" must be one of: ${PROJECT_VARIANTS.join(", ")}`);
+    } else {
+      config.variant = raw.variant as ProjectVariant;
+    }
+  }
+  if (raw.extras !== undefined) {
+    const extras = defaultProjectExtras();
+    if (!isObject(raw.extras)) {
+      issues.push(`"extras" must be an object`);
+    } else {
+      for (const [key, value] of Object.entries(raw.extras)) {
+        if (!(key in extras) || typeof value !== "boolean") {
+          issues.push(`"extras.${key}" is not a known boolean extra (${Object.keys(extras).join(", ")})`);
+        } else {
+          extras[key as keyof ProjectExtras] = value;
+        }
+      }
+    }
+    config.extras = extras;
+  }
+  for (const key of Object.keys(raw)) {
+    if (!["examples", "category", "output", "network", "template", "fhevmVersion", "variant", "extras"].includes(key)) {
+      issues.push(`unknown field "${key}"`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid config ${source}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+  }
+  return config;
+}
+
+export function loadProjectConfig(configPath: string): Partial<ProjectConfig> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    throw new Error(`Cannot read config ${configPath}: ${(error as Error).message}`);
+  }
+  return parseProjectConfig(raw, configPath);
+}
+
+export function saveProjectConfig(configPath: string, config: ProjectConfig): void {
+  const { category, examples, output, network, template, fhevmVersion, variant, extras } = config;
+  const selection = category ? { category } : { examples };
+  const document = { ...selection, output, network, template, fhevmVersion, variant, extras };
+  fs.writeFileSync(configPath, `${JSON.stringify(document, null, 2)}\n`);
+}
+
+/**
+ * Fill in defaults for a non-interactive run (`--yes`, `--config` or
+ * positional arguments). Throws when no examples or output are given.
+ */
+export function resolveProjectConfig(partial: Partial<ProjectConfig>): ProjectConfig {
+  if (!partial.category && (!partial.examples || partial.examples.length === 0)) {
+    throw new Error("No examples or category selected");
+  }
+  if (!partial.output) {
+    throw new Error("No output directory given");
+  }
+  return {
+    examples: partial.category ? [] : (partial.examples ?? []),
+    category: partial.category,
+    output: partial.output,
+    network: partial.network ?? "localhost",
+    template: partial.template ?? DEFAULT_TEMPLATE,
+    fhevmVersion: partial.fhevmVersion,
+    variant: partial.variant,
+    extras: { ...defaultProjectExtras(), ...partial.extras },
+  };
+}
+
+/**
+ * Fill in defaults for `--all`, which includes every example and category:
+ * a selection in the config is ignored. Throws when no output is given.
+ */
+export function resolveWorkspaceConfig(partial: Partial<ProjectConfig>): WorkspaceOptions & { output: string } {
+  if (!partial.output) {
+    throw new Error("No output directory given");
+  }
+  return {
+    output: partial.output,
+    network: partial.network ?? "localhost",
+    template: partial.template ?? DEFAULT_TEMPLATE,
+    fhevmVersion: partial.fhevmVersion,
+    variant: partial.variant,
+    extras: { ...defaultProjectExtras(), ...partial.extras },
+  };
+}
+
+/**
+ * Apply the --network/--template/--fhevm-version/--exercise/--solution/--frontend/--ci/--docs
+ * flags on top of `base`.
+ */
+export function applyCliFlags(
+  base: Partial<ProjectConfig>,
+  values: {
+    network?: string;
+    template?: string;
+    "fhevm-version"?: string;
+    exercise?: boolean;
+    solution?: boolean;
+    frontend?: boolean;
+    ci?: boolean;
+    docs?: boolean;
+  }
+): Partial<ProjectConfig> {
+  const extras = { ...defaultProjectExtras(), ...base.extras };
+  for (const key of ["frontend", "ci", "docs"] as const) {
+    if (values[key]) {
+      extras[key] = true;
+    }
+  }
+
+  const config: Partial<ProjectConfig> = { ...base, extras };
+  if (values.network !== undefined) {
+    if (!NETWORK_TARGETS.includes(values.network as NetworkTarget)) {
+      throw new Error(`--network must be one of: ${NETWORK_TARGETS.join(", ")}`);
+    }
+    config.network = values.network as NetworkTarget;
+  }
+  if (values.template !== undefined) {
+    loadTemplate(values.template);
+    config.template = values.template;
+  }
+  if (values["fhevm-version"] !== undefined) {
+    if (!isValidRange(values["fhevm-version"])) {
+      throw new Error(`--fhevm-version must be a version or range, got "${values["fhevm-version"]}"`);
+    }
+    config.fhevmVersion = values["fhevm-version"];
+  }
+  if (values.exercise && values.solution) {
+    throw new Error("--exercise and --solution cannot be combined");
+  }
+  if (values.exercise || values.solution) {
+    config.variant = values.exercise ? "exercise" : "solution";
+  }
+  return config;
+}
+
+/**
+ * Read the --force/--merge/--dry-run flags, and how exercises are installed
+ * for their compile check (--cache/--registry/--offline, or
+ * --skip-compile-check to leave it out).
+ */
+export function getOutputOptions(values: {
+  force?: boolean;
+  merge?: boolean;
+  "dry-run"?: boolean;
+  verify?: boolean;
+  "skip-compile-check"?: boolean;
+  cache?: string;
+  registry?: string;
+  offline?: boolean;
+}): OutputOptions {
+  if (values.force && values.merge) {
+    throw new Error("--force and --merge cannot be combined");
+  }
+  if (values["dry-run"] && values.verify) {
+    throw new Error("--dry-run writes nothing, so it cannot be combined with --verify");
+  }
+  if (values["skip-compile-check"] && values.verify) {
+    throw new Error("--verify compiles the project, so it cannot be combined with --skip-compile-check");
+  }
+  return {
+    policy: values.force ? "force" : values.merge ? "merge" : "refuse",
+    dryRun: Boolean(values["dry-run"]),
+    compileCheck: values["skip-compile-check"]
+      ? undefined
+      : { cache: values.cache, registry: values.registry, offline: values.offline },
+  };
+}
+
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+class Prompter {
+  private readonly rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+  async ask(question: string, defaultValue = ""): Promise<string> {
+    const suffix = defaultValue ? ` ${colors.cyan}(${defaultValue})${colors.reset}` : "";
+    const answer = (await this.rl.question(`${question}${suffix} `)).trim();
+    return answer || defaultValue;
+  }
+
+  async confirm(question: string, defaultValue: boolean): Promise<boolean> {
+    const answer = (await this.ask(`${question} [${defaultValue ? "Y/n" : "y/N"}]`)).toLowerCase();
+    return answer ? answer.startsWith("y") : defaultValue;
+  }
+
+  /**
+   * Pick entries from a numbered list. Returns the selected indexes.
+   */
+  async choose(question: string, choices: string[], multiple: boolean, defaultIndex = 0): Promise<number[]> {
+    choices.forEach((choice, i) => log(`  ${String(i + 1).padStart(2)}. ${choice}`, "blue"));
+    const hint = multiple ? "comma-separated numbers" : "number";
+    for (;;) {
+      const answer = await this.ask(`${question} [${hint}]`, String(defaultIndex + 1));
+      const picked = answer.split(",").map((part) => Number(part.trim()) - 1);
+      const valid = picked.every((index) => Number.isInteger(index) && index >= 0 && index < choices.length);
+      if (valid && (multiple || picked.length === 1)) {
+        return [...new Set(picked)];
+      }
+      log(`Please enter ${multiple ? "one or more numbers" : "a number"} between 1 and ${choices.length}.`, "yellow");
+    }
+  }
+
+  close(): void {
+    this.rl.close();
+  }
+}
+
+export interface WizardResult {
+  config: ProjectConfig;
+  /** Overwrite policy, asked for when the output directory already has files */
+  policy: OverwritePolicy;
+}
+
+/**
+ * Run the wizard. Returns the answers once the user has confirmed the
+ * preview, or null when they cancel. `defaults` pre-fills the answers and
+ * `policy` is kept unless the output directory exists and it is "refuse".
+ */
+export async function runWizard(
+  registry: Registry,
+  defaults: Partial<ProjectConfig> = {},
+  policy: OverwritePolicy = "refuse"
+): Promise<WizardResult | null> {
+  const prompter = new Prompter();
+  try {
+    log("\nFHEVM project wizard\n", "cyan");
+
+    const config: ProjectConfig = {
+      examples: [],
+      output: "",
+      network: defaults.network ?? "localhost",
+      template: defaults.template ?? DEFAULT_TEMPLATE,
+      fhevmVersion: defaults.fhevmVersion,
+      variant: defaults.variant,
+      extras: { ...defaultProjectExtras(), ...defaults.extras },
+    };
+
+    const [mode] = await prompter.choose(
+      "Generate",
+      ["One or more examples", "A whole category"],
+      false,
+      defaults.category ? 1 : 0
+    );
+
+    if (mode === 1) {
+      const categoryNames = Object.keys(registry.categories);
+      const [index] = await prompter.choose(
+        "Category",
+        categoryNames.map((name) => `${name.padEnd(14)} ${registry.categories[name].title}`),
+        false,
+        Math.max(0, categoryNames.indexOf(defaults.category ?? ""))
+      );
+      config.category = categoryNames[index];
+    } else {
+      const exampleNames = Object.keys(registry.examples);
+      const picked = await prompter.choose(
+        "Examples",
+        exampleNames.map((name) => `${name.padEnd(28)} ${registry.examples[name].summary}`),
+        true,
+        Math.max(0, exampleNames.indexOf(defaults.examples?.[0] ?? ""))
+      );
+      config.examples = picked.map((index) => exampleNames[index]);
+    }
+
+    const defaultOutput =
+      defaults.output ?? `./fhevm-${config.category ?? (config.examples.length === 1 ? config.examples[0] : "examples")}`;
+    config.output = await prompter.ask("Output directory", defaultOutput);
+
+    const outputPath = path.resolve(config.output);
+    if (policy === "refuse" && fs.existsSync(outputPath) && listProjectFiles(outputPath).length > 0) {
+      log(`${outputPath} already contains files.`, "yellow");
+      const [choice] = await prompter.choose(
+        "What should happen to them",
+        ["Cancel", "Merge: add the examples to the FHEVM project there", "Replace: remove the files first"],
+        false
+      );
+      if (choice === 0) {
+        log("Cancelled, nothing was written.", "yellow");
+        return null;
+      }
+      policy = choice === 1 ? "merge" : "force";
+    }
+
+    const [network] = await prompter.choose(
+      "Deployment network",
+      NETWORK_TARGETS,
+      false,
+      NETWORK_TARGETS.indexOf(config.network)
+    );
+    config.network = NETWORK_TARGETS[network];
+
+    const templates = listTemplates();
+    if (templates.length > 1) {
+      const [index] = await prompter.choose(
+        "Project template",
+        templates.map((name) => `${name.padEnd(10)} ${loadTemplate(name).manifest.description}`),
+        false,
+        Math.max(0, templates.indexOf(config.template ?? DEFAULT_TEMPLATE))
+      );
+      config.template = templates[index];
+    }
+
+    config.extras.frontend = await prompter.confirm("Add a frontend starter app?", config.extras.frontend);
+    config.extras.ci = await prompter.confirm("Add a GitHub Actions CI workflow?", config.extras.ci);
+    config.extras.docs = await prompter.confirm("Add example documentation?", config.extras.docs);
+
+    const plan = planProject(registry, config);
+    log(`\nFiles to write in ${path.resolve(config.output)}:\n`, "cyan");
+    log(renderFileTree([...plan.files.keys()]));
+    log("");
+
+    if (!(await prompter.confirm(`Write ${plan.files.size} files?`, true))) {
+      log("Cancelled, nothing was written.", "yellow");
+      return null;
+    }
+
+    const configPath = await prompter.ask("Save these answers for --yes --config? Path (leave empty to skip)");
+    if (configPath) {
+      saveProjectConfig(configPath, config);
+      log(`✓ Saved answers to ${configPath}; replay them with --yes --config ${configPath}`, "green");
+    }
+
+    return { config, policy };
+  } finally {
+    prompter.close();
+  }
+}
+
+/**
+ * Ask for the contract name, category and encrypted fields of a new example
+ * (`create-fhevm-example new`). Returns null when the user cancels.
+ */
+export async function runNewExampleWizard(
+  registry: Registry,
+  defaults: Partial<NewExampleOptions> = {}
+): Promise<NewExampleOptions | null> {
+  const prompter = new Prompter();
+  try {
+    log("\nNew FHEVM example\n", "cyan");
+
+    const contractName = await prompter.ask("Contract name (PascalCase)", defaults.contractName);
+
+    const categoryNames = Object.keys(registry.categories);
+    const known = defaults.category ? categoryNames.indexOf(defaults.category) : 0;
+    const [index] = await prompter.choose(
+      "Category",
+      [...categoryNames.map((name) => `${name.padEnd(20)} ${registry.categories[name].title}`), "A new category"],
+      false,
+      known === -1 ? categoryNames.length : known
+    );
+    const options: NewExampleOptions = { contractName, category: categoryNames[index], fields: [] };
+    if (index === categoryNames.length) {
+      options.category = await prompter.ask("Category name (kebab-case)", defaults.category);
+      options.categoryTitle = (await prompter.ask("Category title")) || undefined;
+      options.categoryDescription = (await prompter.ask("Category description")) || undefined;
+    }
+    const domain = await prompter.ask(
+      "Domain (directory under contracts/ and test/)",
+      defaults.domain ?? options.category
+    );
+    options.domain = domain === options.category ? undefined : domain;
+
+    const fields = await prompter.ask(
+      `Encrypted fields, comma-separated (${FIELD_TYPES.join(", ")})`,
+      defaults.fields?.map((field) => `${field.type} ${field.name}`).join(", ") || "euint64 balance"
+    );
+    options.fields = fields
+      .split(",")
+      .filter((spec) => spec.trim())
+      .map(parseEncryptedField);
+    options.description =
+      (await prompter.ask("Description (leave empty to use the contract's @notice)", defaults.description)) ||
+      undefined;
+
+    validateNewExample(registry, options);
+    if (!(await prompter.confirm(`Create ${options.contractName} in this repository?`, true))) {
+      log("Cancelled, nothing was written.", "yellow");
+      return null;
+    }
+    return options;
+  } finally {
+    prompter.close();
+  }
+}
@@ -0,0 +1,238 @@
+import * as path from "path";
+import { Registry } from "./registry";
+import { log } from "./log";
+import {
+  applyWriteOperations,
+  assertNoConflicts,
+  assertWritable,
+  countOperations,
+  isWritable,
+  OutputOptions,
+  planProject,
+  planWrite,
+  PlannedFile,
+  ProjectOptions,
+  ProjectPlan,
+  reportWriteOperations,
+} from "./project";
+import { runTemplateHooks } from "./templates";
+import { createTemplateLoader, renderTemplate } from "./templating";
+import { CompatibilityError } from "./versions";
+import { addGenerationManifest, getSourceRevision, SourceRevision } from "./manifest";
+import { reportVerification, verifyWorkspace, VerifyOptions } from "./verify";
+
+/**
+ * Workspaces
+ * `--all` generates every example and every category as packages of one npm
+ * workspaces monorepo: examples/<name>/ and categories/<name>/ are ordinary
+ * generated projects, and the root package.json compiles and tests them all.
+ * A manifest at the root records what was generated and from which commit.
+ */
+
+export const WORKSPACE_MANIFEST_FILE = "fhevm-workspace.json";
+
+export const WORKSPACE_PACKAGE_NAME = "fhevm-examples-workspace";
+
+/** Every option of a project except which examples it includes */
+export type WorkspaceOptions = Omit<ProjectOptions, "examples" | "category">;
+
+export interface WorkspacePackage {
+  /** POSIX path of the package relative to the workspace */
+  dir: string;
+  /** Set for category packages */
+  category?: string;
+  plan: ProjectPlan;
+}
+
+export interface WorkspacePlan {
+  packages: WorkspacePackage[];
+  /** POSIX path relative to the workspace → file */
+  files: Map<string, PlannedFile>;
+  source: SourceRevision;
+  warnings: string[];
+}
+
+/**
+ * Plan one package per example and per category, then the workspace's own
+ * files. The FHEVM version requirements of every package are checked
+ * together, so a single error lists each incompatible example. Each package
+ * gets its own generation manifest, so it can be upgraded on its own.
+ */
+export function planWorkspace(registry: Registry, options: WorkspaceOptions): WorkspacePlan {
+  // Packages are tested from the root, so only the workspace gets a CI workflow
+  const packageOptions: Omit<ProjectOptions, "examples"> = { ...options, extras: { ...options.extras, ci: false } };
+  const selections: { dir: string; examples: string[]; category?: string }[] = [
+    ...Object.keys(registry.examples).map((name) => ({ dir: `examples/${name}`, examples: [name] })),
+    ...Object.keys(registry.categories).map((name) => ({ dir: `categories/${name}`, examples: [], category: name })),
+  ];
+
+  const source = getSourceRevision();
+  const packages: WorkspacePackage[] = [];
+  const issues: string[] = [];
+  for (const { dir, examples, category } of selections) {
+    try {
+      const projectOptions = { ...packageOptions, examples, category };
+      const packagePlan = planProject(registry, projectOptions);
+      addGenerationManifest(packagePlan, projectOptions, source);
+      packages.push({ dir, category, plan: packagePlan });
+    } catch (error) {
+      if (!(error instanceof CompatibilityError)) {
+        throw error;
+      }
+      issues.push(...error.issues.map((issue) => `${dir}: ${issue}`));
+    }
+  }
+  if (issues.length > 0) {
+    throw new CompatibilityError(issues);
+  }
+
+  const plan: WorkspacePlan = { packages, files: new Map(), source, warnings: [] };
+  for (const { dir, plan: packagePlan } of packages) {
+    for (const [file, planned] of packagePlan.files) {
+      plan.files.set(`${dir}/${file}`, planned);
+    }
+    plan.warnings.push(...packagePlan.warnings.filter((warning) => !plan.warnings.includes(warning)));
+  }
+
+  const packageJson = {
+    name: WORKSPACE_PACKAGE_NAME,
+    version: "1.0.0",
+    private: true,
+    description: "Every FHEVM example and category as npm workspaces",
+    license: "BSD-3-Clause-Clear",
+    engines: { node: ">=20", npm: ">=7.0.0" },
+    workspaces: ["examples/*", "categories/*"],
+    scripts: {
+      compile: "npm run compile --workspaces",
+      test: "npm run test --workspaces",
+      lint: "npm run lint --workspaces --if-present",
+    },
+  };
+  plan.files.set("package.json", { content: `${JSON.stringify(packageJson, null, 2)}\n`, shared: true });
+
+  const loader = createTemplateLoader();
+  const describe = ({ dir, category, plan: packagePlan }: WorkspacePackage) => ({
+    dir,
+    name: packagePlan.name,
+    title: packagePlan.title,
+    contracts: Object.values(packagePlan.contracts),
+    category,
+  });
+  plan.files.set("README.md", {
+    content: renderTemplate(
+      "workspace/README.md.tpl",
+      {
+        name: WORKSPACE_PACKAGE_NAME,
+        network: options.network,
+        template: packages[0]?.plan.template ?? "",
+        commit: plan.source.commit ?? "",
+        manifestFile: WORKSPACE_MANIFEST_FILE,
+        examples: packages.filter((pkg) => !pkg.category).map(describe),
+        categories: packages.filter((pkg) => pkg.category).map(describe),
+      },
+      loader
+    ),
+    shared: true,
+  });
+  if (options.extras.ci) {
+    plan.files.set(".github/workflows/test.yml", {
+      content: renderTemplate("github/test.yml.tpl", {}, loader),
+      shared: true,
+    });
+  }
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    source: plan.source,
+    template: packages[0]?.plan.template,
+    network: options.network,
+    fhevmVersion: options.fhevmVersion,
+    packages: packages.map(({ dir, category, plan: packagePlan }) => ({
+      name: packagePlan.name,
+      path: dir,
+      category,
+      examples: Object.keys(packagePlan.contracts),
+      contracts: Object.values(packagePlan.contracts),
+      dependencies: packagePlan.dependencies,
+    })),
+  };
+  plan.files.set(WORKSPACE_MANIFEST_FILE, { content: `${JSON.stringify(manifest, null, 2)}\n` });
+
+  return plan;
+}
+
+/**
+ * Plan, write and optionally verify a workspace, logging each step like
+ * `generateProject`. --merge is refused: a workspace is regenerated as a
+ * whole with --force.
+ */
+export function generateWorkspace(
+  registry: Registry,
+  options: WorkspaceOptions,
+  outputPath: string,
+  output: OutputOptions,
+  verifyOptions?: VerifyOptions
+): WorkspacePlan {
+  if (output.policy === "merge") {
+    throw new Error("--merge adds to a single project; regenerate a workspace with --force instead");
+  }
+
+  log("Step 1: Planning workspace packages...", "blue");
+  const plan = planWorkspace(registry, options);
+  log(`  Template: ${plan.packages[0]?.plan.template}`, "cyan");
+  for (const { dir, plan: packagePlan } of plan.packages) {
+    log(`  ✓ ${dir} (${Object.values(packagePlan.contracts).join(", ")})`, "green");
+  }
+  plan.warnings.forEach((warning) => log(`  ⚠ ${warning}`, "yellow"));
+  log(`  Source commit: ${plan.source.commit ?? "unknown"}${plan.source.dirty ? " (uncommitted changes)" : ""}`, "cyan");
+
+  const operations = planWrite(plan, outputPath, output.policy);
+  const hooks = plan.packages.flatMap(({ dir, plan: packagePlan }) =>
+    packagePlan.hooks.map((command) => ({ dir, command }))
+  );
+  if (output.dryRun) {
+    log(`Step 2: Planned changes in ${outputPath} (dry run)...`, "blue");
+    reportWriteOperations(operations);
+    assertNoConflicts(operations, outputPath);
+    hooks.forEach(({ dir, command }) => log(`  would run in ${dir}: ${command}`, "blue"));
+    if (!isWritable(outputPath, output.policy)) {
+      log(`  ⚠ ${outputPath} already contains files: a real run refuses without --force`, "yellow");
+    }
+    log("Dry run: nothing was written", "yellow");
+    return plan;
+  }
+
+  assertWritable(outputPath, output.policy);
+  log(`Step 2: Writing ${plan.files.size} files...`, "blue");
+  applyWriteOperations(outputPath, operations);
+  const written = countOperations(operations, "create") + countOperations(operations, "update");
+  const deleted = countOperations(operations, "delete");
+  log(
+    `✓ Workspace written to ${outputPath} (${plan.packages.length} packages, ${written} files written` +
+      `${deleted > 0 ? `, ${deleted} removed` : ""})`,
+    "green"
+  );
+
+  for (const { dir, plan: packagePlan } of plan.packages) {
+    if (packagePlan.hooks.length > 0) {
+      log(`Running the ${packagePlan.template} template's hooks in ${dir}...`, "blue");
+      runTemplateHooks(packagePlan.hooks, path.join(outputPath, dir));
+    }
+  }
+
+  const packageTests = plan.packages.map(({ dir, plan: packagePlan }) => ({ dir, tests: packagePlan.tests }));
+  const compileOptions = verifyOptions ?? output.compileCheck;
+  if (options.variant === "exercise" && compileOptions) {
+    log("Step 3: Checking that the exercises compile...", "blue");
+    if (!reportVerification(verifyWorkspace(outputPath, packageTests, { ...compileOptions, skipTests: true }))) {
+      throw new Error(`Workspace generated in ${outputPath} but failed the compile check`);
+    }
+  } else if (verifyOptions) {
+    log("Step 3: Verifying generated workspace...", "blue");
+    if (!reportVerification(verifyWorkspace(outputPath, packageTests, verifyOptions))) {
+      throw new Error(`Workspace generated in ${outputPath} but failed verification`);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,232 @@
+{{! README.md of generated projects, single-example and multi-example alike }}
+{{#if single}}
+# FHEVM Example: {{title}}
+{{else}}
+# FHEVM Category: {{title}}
+{{/if}}
+
+## Overview
+
+{{description}}
+
+{{#if single}}
+## Description
+
+This is a standalone FHEVM example demonstrating privacy-preserving smart contracts using Fully Homomorphic Encryption (FHE) technology.
+{{else}}
+This project contains **{{contractCount}}** standalone FHEVM examples demonstrating privacy-preserving smart contracts using Fully Homomorphic Encryption (FHE) technology.
+{{/if}}
+
+## Structure
+
+```
+.
+├── {{layout.contracts}}/
+{{#if single}}
+{{#each examples}}
+│   └── {{contractPath}}          # Main contract
+{{/each}}
+{{else}}
+│   └── [Multiple FHE contracts]
+{{/if}}
+├── {{layout.tests}}/
+{{#if single}}
+{{#each examples}}
+│   └── {{testPath}}           # Contract tests
+{{/each}}
+{{else}}
+│   └── [Test suites for each contract]
+{{/if}}
+{{#if deploy.hardhatDeploy}}
+├── {{layout.deploy}}/
+{{#if single}}
+{{#each examples}}
+│   └── {{contractName}}.ts           # hardhat-deploy script
+{{/each}}
+{{else}}
+│   ├── [hardhat-deploy script for each contract]
+│   └── manifest.ts               # Writes deployments-manifest.json
+{{/if}}
+{{/if}}
+{{#if deploy.scripts}}
+├── {{layout.deploy}}/
+│   └── deploy.ts                 # Deploys every contract (hardhat run)
+{{/if}}
+├── hardhat.config.ts             # Hardhat configuration
+├── tsconfig.json                 # TypeScript configuration
+└── package.json                  # Project dependencies
+```
+
+## Setup
+
+### Prerequisites
+
+- Node.js >= 20
+- npm >= 7
+
+### Installation
+
+```bash
+npm install
+```
+
+## Usage
+
+{{#if single}}
+### Compile Contracts
+{{else}}
+### Compile All Contracts
+{{/if}}
+
+```bash
+npm run compile
+```
+
+{{#if single}}
+### Run Tests
+{{else}}
+### Run All Tests
+{{/if}}
+
+```bash
+npm run test
+```
+
+{{#if deploy.enabled}}
+{{#if single}}
+### Deploy (Local)
+{{else}}
+### Deploy All Contracts
+{{/if}}
+
+Start a local node in a separate terminal, then run the deploy scripts against it:
+
+```bash
+npx hardhat node
+npm run deploy:localhost
+```
+
+{{#if single}}
+### Deploy (Sepolia Testnet)
+
+```bash
+npm run deploy:sepolia
+```
+
+{{/if}}
+{{#if deploy.manifest}}
+Contracts are deployed in dependency order. The address of each deployed contract is recorded per network in `deployments-manifest.json`. `npm run deploy` targets the **{{network}}** network.
+{{else}}
+`npm run deploy` targets the **{{network}}** network.
+{{/if}}
+
+{{/if}}
+{{#if exercise}}
+## Exercise
+
+This project is a tutorial exercise: parts of the contract code were replaced by `TODO` comments. Fill them in, then run `npm run test`; the tests pass once the contracts work.
+
+{{#each todos}}
+- `{{file}}:{{line}}` - {{hint}}
+{{/each}}
+
+{{/if}}
+{{#if solution}}
+## Solution
+
+This is the reference solution of the tutorial exercise generated with `--exercise`.
+
+{{/if}}
+{{#unless single}}
+## Available Examples
+
+This category includes the following examples:
+
+{{#each examples}}
+- **{{title}}** (`{{contractName}}`) - {{summary}}
+{{/each}}
+
+## Contracts
+
+{{#each examples}}
+{{> contract-section.md}}
+{{#unless @last}}
+
+{{/unless}}
+{{/each}}
+
+{{/unless}}
+## Key Concepts
+
+{{#if single}}
+### Encrypted State
+
+The contract uses encrypted state variables to maintain privacy:
+
+```solidity
+euint32 private encryptedValue;
+```
+
+### FHE Operations
+
+Operations are performed directly on encrypted data:
+
+```solidity
+// Encrypt external input
+euint32 internal = FHE.fromExternal(externalEuint32, inputProof);
+
+// Perform computation on encrypted data
+result = FHE.add(encryptedValue, internal);
+
+// Grant permissions for access
+FHE.allowThis(result);
+FHE.allow(result, msg.sender);
+```
+
+### Permission Management
+
+All encrypted values require explicit permission grants:
+
+- `FHE.allowThis(value)` - Allows the contract to access the value
+- `FHE.allow(value, address)` - Allows a specific address to decrypt the value
+
+## Important Notes
+
+- This example demonstrates fundamental FHEVM patterns
+- Never expose private encrypted values without explicit permission
+- Always grant both contract and user permissions when needed
+- Test thoroughly with various inputs before mainnet deployment
+{{else}}
+### Fully Homomorphic Encryption
+
+FHE allows computations on encrypted data without decryption:
+
+```solidity
+// Operations performed on encrypted data
+result = FHE.add(encryptedA, encryptedB);
+```
+
+### Permission Management
+
+All encrypted values require explicit permissions:
+
+```solidity
+FHE.allowThis(encryptedValue);
+FHE.allow(encryptedValue, userAddress);
+```
+{{/if}}
+
+## License
+
+BSD-3-Clause-Clear
+
+## Support
+
+{{#if single}}
+For questions and support, visit:
+- [Zama Community Forum](https://www.zama.ai/community)
+- [Zama Discord](https://discord.com/invite/zama)
+- [GitHub Issues](https://github.com/zama-ai/fhevm-examples/issues)
+{{else}}
+For questions, visit the [Zama Community Forum](https://www.zama.ai/community)
+{{/if}}
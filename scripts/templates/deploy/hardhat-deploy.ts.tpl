@@ -0,0 +1,54 @@
+{{! hardhat-deploy module of one contract; arguments and calls arrive rendered }}
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { {{accounts}} } = await hre.getNamedAccounts();
+  const { {{helpers}} } = hre.deployments;
+
+{{#each references}}
+  const {{variable}} = await get("{{contractName}}");
+{{#if @last}}
+
+{{/if}}
+{{/each}}
+  const {{deployedVariable}} = await deploy("{{contractName}}", {
+    from: {{deployer}},
+{{#if args}}
+    args: [{{args}}],
+{{/if}}
+    log: true,
+  });
+
+  console.log("{{contractName}} contract:", {{deployedVariable}}.address);
+{{#if setup}}
+
+  // Post-deploy setup only runs when the contract is first deployed
+  if (!{{deployedVariable}}.newlyDeployed) {
+    return;
+  }
+
+{{#if usesEncryption}}
+  await hre.fhevm.initializeCLIApi();
+{{/if}}
+{{#each setup}}
+{{#unless @first}}
+
+{{/unless}}
+{{#if inputs}}
+  const {{inputVariable}} = await hre.fhevm
+    .createEncryptedInput({{deployedVariable}}.address, {{from}})
+{{#each inputs}}
+    .{{method}}({{value}})
+{{/each}}
+    .encrypt();
+{{/if}}
+{{call}}
+{{/each}}
+{{/if}}
+};
+
+export default func;
+func.id = "{{id}}"; // id required to prevent re-execution
+func.tags = [{{tags}}];
+func.dependencies = [{{dependencies}}];
@@ -0,0 +1,42 @@
+{{! hardhat-deploy module recording every deployment in the manifest file }}
+import * as fs from "fs";
+import * as path from "path";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Contracts in deployment order
+const CONTRACTS = [
+{{#each contracts}}
+  { example: "{{example}}", contract: "{{contract}}", dependencies: [{{dependencies}}] },
+{{/each}}
+];
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const manifestPath = path.join(hre.config.paths.root, "{{manifestFile}}");
+  const manifest = fs.existsSync(manifestPath) ? JSON.parse(fs.readFileSync(manifestPath, "utf-8")) : {};
+
+  const contracts: Record<string, unknown> = {};
+  for (const { example, contract, dependencies } of CONTRACTS) {
+    const deployment = await hre.deployments.get(contract);
+    contracts[contract] = {
+      example,
+      address: deployment.address,
+      transactionHash: deployment.transactionHash,
+      dependencies,
+    };
+  }
+
+  manifest[hre.network.name] = {
+    project: "{{projectName}}",
+    chainId: await hre.getChainId(),
+    deployedAt: new Date().toISOString(),
+    contracts,
+  };
+
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`Deployment manifest written to ${path.relative(process.cwd(), manifestPath)}`);
+};
+
+export default func;
+func.tags = ["manifest"];
+func.dependencies = [{{dependencies}}];
@@ -0,0 +1,56 @@
+{{! Standalone `hardhat run` deploy script for template variants without hardhat-deploy }}
+import * as fs from "fs";
+import * as path from "path";
+import hre from "hardhat";
+
+async function main() {
+  const [deployer] = await hre.ethers.getSigners();
+  const contracts: Record<string, unknown> = {};
+{{#if usesEncryption}}
+
+  await hre.fhevm.initializeCLIApi();
+{{/if}}
+{{#each targets}}
+
+  // {{contractName}} ({{exampleName}})
+  const {{variable}} = await hre.ethers.deployContract("{{contractName}}", [{{args}}], deployer);
+  await {{variable}}.waitForDeployment();
+  const {{variable}}Address = await {{variable}}.getAddress();
+  console.log("{{contractName}} contract:", {{variable}}Address);
+  contracts.{{contractName}} = {
+    example: "{{exampleName}}",
+    address: {{variable}}Address,
+    transactionHash: {{variable}}.deploymentTransaction()?.hash,
+    dependencies: [{{dependencies}}],
+  };
+{{#each setup}}
+
+{{#if inputs}}
+  const {{inputVariable}} = await hre.fhevm
+    .createEncryptedInput({{variable}}Address, {{from}}.address)
+{{#each inputs}}
+    .{{method}}({{value}})
+{{/each}}
+    .encrypt();
+{{/if}}
+{{call}}
+{{/each}}
+{{/each}}
+
+  const manifestPath = path.join(hre.config.paths.root, "{{manifestFile}}");
+  const manifest = fs.existsSync(manifestPath) ? JSON.parse(fs.readFileSync(manifestPath, "utf-8")) : {};
+  manifest[hre.network.name] = {
+    project: "{{projectName}}",
+    chainId: (await hre.ethers.provider.getNetwork()).chainId.toString(),
+    deployedAt: new Date().toISOString(),
+    contracts,
+  };
+
+  fs.writeFileSync(manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`Deployment manifest written to ${path.relative(process.cwd(), manifestPath)}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
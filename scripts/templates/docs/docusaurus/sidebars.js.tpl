@@ -0,0 +1,18 @@
+{{! Docusaurus sidebar of the example pages; labels and ids arrive as JSON strings }}
+/**
+ * Sidebar of the FHEVM example pages, written by generate-docs --format docusaurus.
+ * @type {import("@docusaurus/plugin-content-docs").SidebarsConfig}
+ */
+const sidebars = {
+  examples: [
+{{#each categories}}
+    {
+      type: "category",
+      label: {{label}},
+      items: [{{items}}],
+    },
+{{/each}}
+  ],
+};
+
+module.exports = sidebars;
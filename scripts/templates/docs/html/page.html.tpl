@@ -0,0 +1,30 @@
+{{! Layout of every page of the static HTML docs; text arrives escaped and content as HTML }}
+<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{title}}</title>
+    <link rel="stylesheet" href="assets/style.css" />
+  </head>
+  <body>
+    <nav class="sidebar">
+      <a class="site-title" href="index.html">{{siteTitle}}</a>
+      <input id="search" type="search" placeholder="Search examples and functions…" aria-label="Search examples and functions" />
+      <ul id="search-results" hidden></ul>
+{{#each categories}}
+      <h2>{{title}}</h2>
+      <ul>
+{{#each pages}}
+        <li><a href="{{href}}"{{#if current}} aria-current="page"{{/if}}>{{title}}</a></li>
+{{/each}}
+      </ul>
+{{/each}}
+    </nav>
+    <main>
+{{content}}
+    </main>
+    <script src="assets/search-index.js"></script>
+    <script src="assets/site.js"></script>
+  </body>
+</html>
@@ -0,0 +1,74 @@
+{{! Tabs and search of the static HTML docs; the search index is assets/search-index.js }}
+(function () {
+  // Tabs: without JavaScript every panel stays visible
+  document.querySelectorAll(".tabs").forEach(function (tabs) {
+    var buttons = tabs.querySelectorAll(":scope > .tab-list > button");
+    var panels = tabs.querySelectorAll(":scope > .tab-panel");
+    function select(selected) {
+      buttons.forEach(function (button, i) {
+        button.setAttribute("aria-selected", String(i === selected));
+      });
+      panels.forEach(function (panel, i) {
+        panel.hidden = i !== selected;
+      });
+    }
+    buttons.forEach(function (button, i) {
+      button.addEventListener("click", function () {
+        select(i);
+      });
+    });
+    select(0);
+  });
+
+  // Search: every word of the query must appear in an example's title, category or description,
+  // or together with them in one of its functions' name and NatSpec, which are then listed
+  var input = document.getElementById("search");
+  var results = document.getElementById("search-results");
+  var entries = window.DOCS_SEARCH_INDEX || [];
+  if (!input || !results) {
+    return;
+  }
+  function matches(text, words) {
+    return words.every(function (word) {
+      return text.indexOf(word) !== -1;
+    });
+  }
+  input.addEventListener("input", function () {
+    var words = input.value.toLowerCase().split(/\s+/).filter(Boolean);
+    results.innerHTML = "";
+    results.hidden = words.length === 0;
+    var found = 0;
+    entries.forEach(function (entry) {
+      var text = [entry.title, entry.category, entry.description].join(" ").toLowerCase();
+      var functions = entry.functions.filter(function (fn) {
+        return matches([text, fn.name, fn.text].join(" ").toLowerCase(), words);
+      });
+      if (functions.length === 0 && !matches(text, words)) {
+        return;
+      }
+      var item = document.createElement("li");
+      var link = document.createElement("a");
+      link.href = entry.href;
+      link.textContent = entry.title;
+      item.appendChild(link);
+      if (functions.length > 0 && !matches(text, words)) {
+        var names = document.createElement("code");
+        names.textContent = functions
+          .map(function (fn) {
+            return fn.name;
+          })
+          .join(", ");
+        item.appendChild(document.createTextNode(" "));
+        item.appendChild(names);
+      }
+      results.appendChild(item);
+      found++;
+    });
+    if (words.length > 0 && found === 0) {
+      var empty = document.createElement("li");
+      empty.className = "empty";
+      empty.textContent = "No matches";
+      results.appendChild(empty);
+    }
+  });
+})();
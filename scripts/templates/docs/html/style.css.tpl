@@ -0,0 +1,148 @@
+{{! Styles of the static HTML docs }}
+* {
+  box-sizing: border-box;
+}
+
+body {
+  display: flex;
+  margin: 0;
+  font-family: system-ui, sans-serif;
+  line-height: 1.6;
+  color: #1f2328;
+}
+
+.sidebar {
+  position: sticky;
+  top: 0;
+  flex: 0 0 260px;
+  height: 100vh;
+  overflow-y: auto;
+  padding: 1.5rem 1rem;
+  background: #f6f8fa;
+  border-right: 1px solid #d0d7de;
+}
+
+.sidebar .site-title {
+  display: block;
+  margin-bottom: 1rem;
+  font-weight: 600;
+  color: inherit;
+  text-decoration: none;
+}
+
+.sidebar h2 {
+  margin: 1.25rem 0 0.25rem;
+  font-size: 0.8rem;
+  text-transform: uppercase;
+  color: #59636e;
+}
+
+.sidebar ul {
+  margin: 0;
+  padding: 0;
+  list-style: none;
+}
+
+.sidebar a[aria-current="page"] {
+  font-weight: 600;
+}
+
+#search {
+  width: 100%;
+  padding: 0.4rem 0.6rem;
+  border: 1px solid #d0d7de;
+  border-radius: 6px;
+}
+
+#search-results {
+  margin-top: 0.5rem;
+}
+
+#search-results .empty {
+  color: #59636e;
+}
+
+main {
+  flex: 1;
+  min-width: 0;
+  max-width: 960px;
+  padding: 1.5rem 2rem;
+}
+
+a {
+  color: #0969da;
+}
+
+code {
+  padding: 0.1em 0.3em;
+  font-size: 0.9em;
+  background: #eff1f3;
+  border-radius: 4px;
+}
+
+pre {
+  overflow-x: auto;
+  padding: 1rem;
+  background: #f6f8fa;
+  border-radius: 6px;
+}
+
+pre code {
+  padding: 0;
+  background: none;
+}
+
+table {
+  display: block;
+  overflow-x: auto;
+  border-collapse: collapse;
+}
+
+th,
+td {
+  padding: 0.4rem 0.75rem;
+  text-align: left;
+  border: 1px solid #d0d7de;
+}
+
+.hint {
+  margin: 1rem 0;
+  padding: 0.5rem 1rem;
+  border-left: 4px solid #0969da;
+  background: #ddf4ff;
+}
+
+.hint-warning {
+  border-color: #9a6700;
+  background: #fff8c5;
+}
+
+.tab-list {
+  display: flex;
+  gap: 0.25rem;
+  border-bottom: 1px solid #d0d7de;
+}
+
+.tab-list button {
+  padding: 0.4rem 0.8rem;
+  font: inherit;
+  background: none;
+  border: 1px solid transparent;
+  border-bottom: none;
+  border-radius: 6px 6px 0 0;
+  cursor: pointer;
+}
+
+.tab-list button[aria-selected="true"] {
+  background: #f6f8fa;
+  border-color: #d0d7de;
+}
+
+.cards li {
+  margin-bottom: 1rem;
+}
+
+.cards p {
+  margin: 0;
+  color: #59636e;
+}
@@ -0,0 +1,41 @@
+# {{title}}: Frontend
+
+A minimal web client for the contracts of this project, generated from their Solidity sources. Connect a wallet, fill in the arguments of any external function and send it: encrypted arguments are encrypted in the browser with the [Zama Relayer SDK](https://docs.zama.ai/protocol/relayer-sdk-guides), and the encrypted values returned by view functions are decrypted for the connected account (user decryption).
+
+## Run
+
+{{#if deployed}}
+1. Deploy the contracts to Sepolia from the project root: `npm run deploy:sepolia`.
+2. In this directory, copy the deployed addresses to `.env.local` and start the app:
+
+   ```bash
+   npm install
+   npm run sync-addresses
+   npm run dev
+   ```
+{{else}}
+1. Deploy the contracts to Sepolia and write their addresses to `.env.local` in this directory:
+
+   ```bash
+{{#each contracts}}
+   {{env}}=0x...
+{{/each}}
+   ```
+
+2. Start the app:
+
+   ```bash
+   npm install
+   npm run dev
+   ```
+{{/if}}
+
+Addresses can also be edited on the page. The Relayer SDK encrypts and decrypts against the Sepolia FHEVM deployment, so the app only works with contracts deployed there: a local Hardhat node (`npm run deploy:localhost`, `npm run test`) only has the mock used by the tests.
+
+## Contracts
+
+{{#each contracts}}
+- **{{title}}** (`{{contractName}}`): `src/contracts/{{contractName}}.ts`, address from `{{env}}`
+{{/each}}
+
+Each contract module holds the ABI (with encrypted types as `bytes32` handles) and a descriptor of every function. `src/main.ts` renders a form per function from them; replace it with your own UI as the project grows.
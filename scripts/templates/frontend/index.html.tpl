@@ -0,0 +1,21 @@
+<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>{{title}}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; }
+      section { border-top: 1px solid #ddd; margin-top: 2rem; }
+      form { margin: 1rem 0; padding: 1rem; background: #f7f7f7; border-radius: 6px; }
+      label { display: block; margin: 0.5rem 0; }
+      input { width: 100%; box-sizing: border-box; font-family: monospace; }
+      pre { white-space: pre-wrap; word-break: break-all; }
+    </style>
+  </head>
+  <body>
+    <h1>{{title}}</h1>
+    <div id="app"></div>
+    <script type="module" src="/src/main.ts"></script>
+  </body>
+</html>
@@ -0,0 +1,20 @@
+{
+  "name": "{{projectName}}-frontend",
+  "version": "1.0.0",
+  "private": true,
+  "type": "module",
+  "scripts": {
+    "dev": "vite",
+    "build": "tsc && vite build",
+    "preview": "vite preview",
+    "sync-addresses": "node sync-addresses.mjs"
+  },
+  "dependencies": {
+    "@zama-fhe/relayer-sdk": "^0.3.0-5",
+    "ethers": "^6.15.0"
+  },
+  "devDependencies": {
+    "typescript": "^5.8.3",
+    "vite": "^5.4.0"
+  }
+}
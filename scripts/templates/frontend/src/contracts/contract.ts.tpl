@@ -0,0 +1,42 @@
+{{! ABI and function descriptors of one contract, derived from its Solidity source }}
+import type { ContractDescriptor } from "../types";
+
+/** {{title}} ({{exampleName}}) */
+export const {{contractName}}: ContractDescriptor = {
+  name: "{{contractName}}",
+  example: "{{exampleName}}",
+  address: import.meta.env.{{env}} ?? "",
+  abi: [
+{{#each functions}}
+    "{{fragment}}",
+{{/each}}
+  ],
+  functions: [
+{{#each functions}}
+    {
+      name: "{{name}}",
+      signature: "{{signature}}",
+      mutability: "{{mutability}}",
+      description: {{description}},
+{{#if inputs}}
+      inputs: [
+{{#each inputs}}
+        { name: "{{name}}", type: "{{type}}", kind: "{{kind}}"{{#if method}}, method: "{{method}}"{{/if}} },
+{{/each}}
+      ],
+{{else}}
+      inputs: [],
+{{/if}}
+{{#if outputs}}
+      outputs: [
+{{#each outputs}}
+        { name: "{{name}}", type: "{{type}}", encrypted: {{encrypted}} },
+{{/each}}
+      ],
+{{else}}
+      outputs: [],
+{{/if}}
+    },
+{{/each}}
+  ],
+};
@@ -0,0 +1,7 @@
+{{! Every contract of the project, in deployment order }}
+import type { ContractDescriptor } from "../types";
+{{#each contracts}}
+import { {{contractName}} } from "./{{contractName}}";
+{{/each}}
+
+export const contracts: ContractDescriptor[] = [{{contractList}}];
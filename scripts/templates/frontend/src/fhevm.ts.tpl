@@ -0,0 +1,71 @@
+import { createInstance, DecryptedResults, FhevmInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/web";
+import type { Signer } from "ethers";
+import type { EncryptMethod } from "./types";
+
+// Validity of a user decryption authorization
+const DECRYPTION_DURATION_DAYS = 1;
+
+let instance: Promise<FhevmInstance> | undefined;
+
+/**
+ * The Relayer SDK instance, created on first use with the connected wallet as provider.
+ * The relayer serves Sepolia only, which is why sync-addresses reads Sepolia deployments.
+ */
+export function getFhevm(): Promise<FhevmInstance> {
+  instance ??= initSDK().then(() => createInstance({ ...SepoliaConfig, network: window.ethereum }));
+  return instance;
+}
+
+/**
+ * Encrypt `values` for `contractAddress` in a single input, bound to `userAddress`.
+ */
+export async function encryptInputs(
+  contractAddress: string,
+  userAddress: string,
+  values: Array<{ method: EncryptMethod; value: bigint | boolean | string }>
+): Promise<{ handles: Uint8Array[]; inputProof: Uint8Array }> {
+  const input = (await getFhevm()).createEncryptedInput(contractAddress, userAddress);
+  for (const { method, value } of values) {
+    if (method === "addAddress") {
+      input.addAddress(String(value));
+    } else if (method === "addBool") {
+      input.addBool(Boolean(value));
+    } else {
+      input[method](BigInt(value));
+    }
+  }
+  return input.encrypt();
+}
+
+/**
+ * Decrypt `handles` of `contractAddress` for the signer, who signs a
+ * short-lived decryption authorization.
+ */
+export async function decryptHandles(
+  signer: Signer,
+  contractAddress: string,
+  handles: string[]
+): Promise<DecryptedResults> {
+  const fhevm = await getFhevm();
+  const keypair = fhevm.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const contractAddresses = [contractAddress];
+
+  const eip712 = fhevm.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, DECRYPTION_DURATION_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  return fhevm.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    contractAddresses,
+    await signer.getAddress(),
+    startTimestamp,
+    DECRYPTION_DURATION_DAYS
+  );
+}
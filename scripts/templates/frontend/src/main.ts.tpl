@@ -0,0 +1,167 @@
+import { BrowserProvider, Contract, JsonRpcSigner, ZeroHash } from "ethers";
+import { contracts } from "./contracts";
+import { decryptHandles, encryptInputs } from "./fhevm";
+import type { ContractDescriptor, FunctionDescriptor, InputDescriptor } from "./types";
+
+let signer: JsonRpcSigner | undefined;
+
+function element<K extends keyof HTMLElementTagNameMap>(tag: K, text?: string): HTMLElementTagNameMap[K] {
+  const node = document.createElement(tag);
+  if (text !== undefined) {
+    node.textContent = text;
+  }
+  return node;
+}
+
+function parsePlainValue(input: InputDescriptor, raw: string): unknown {
+  if (input.type.endsWith("]")) {
+    return JSON.parse(raw);
+  }
+  if (/^u?int\d*$/.test(input.type)) {
+    return BigInt(raw);
+  }
+  return input.type === "bool" ? raw === "true" : raw;
+}
+
+function parseEncryptedValue(input: InputDescriptor, raw: string): bigint | boolean | string {
+  if (input.method === "addBool") {
+    return raw === "true";
+  }
+  return input.method === "addAddress" ? raw : BigInt(raw);
+}
+
+function formatValue(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => (typeof item === "bigint" ? item.toString() : item));
+}
+
+/**
+ * Call `fn` with the raw form values: encrypted arguments are encrypted first,
+ * view results are returned with their encrypted values decrypted, and
+ * transactions are sent and awaited.
+ */
+async function callFunction(
+  descriptor: ContractDescriptor,
+  address: string,
+  fn: FunctionDescriptor,
+  values: string[],
+  payment: string
+): Promise<string> {
+  if (!signer) {
+    throw new Error("Connect a wallet first");
+  }
+  const user = await signer.getAddress();
+
+  const encrypted = fn.inputs.flatMap((input, i) =>
+    input.kind === "encrypted" ? [{ method: input.method!, value: parseEncryptedValue(input, values[i]) }] : []
+  );
+  const { handles, inputProof } =
+    encrypted.length > 0 ? await encryptInputs(address, user, encrypted) : { handles: [], inputProof: undefined };
+  let handle = 0;
+  const args = fn.inputs.map((input, i) => {
+    if (input.kind === "encrypted") {
+      return handles[handle++];
+    }
+    return input.kind === "proof" ? inputProof : parsePlainValue(input, values[i]);
+  });
+
+  const method = new Contract(address, descriptor.abi, signer).getFunction(fn.signature);
+  if (fn.mutability === "view" || fn.mutability === "pure") {
+    const result = await method.staticCall(...args);
+    const outputs: unknown[] = fn.outputs.length === 1 ? [result] : [...result];
+    const encryptedHandles = fn.outputs.flatMap((output, i) =>
+      output.encrypted && outputs[i] !== ZeroHash ? [outputs[i] as string] : []
+    );
+    const clear = encryptedHandles.length > 0 ? await decryptHandles(signer, address, encryptedHandles) : {};
+    const lines = fn.outputs.map((output, i) => {
+      if (!output.encrypted) {
+        return `${output.name}: ${formatValue(outputs[i])}`;
+      }
+      // A zero handle is an encrypted value that was never set
+      const value = outputs[i] === ZeroHash ? "(not initialized)" : formatValue(clear[outputs[i] as string]);
+      return `${output.name}: ${value} (decrypted from ${outputs[i]})`;
+    });
+    return lines.join("\n") || "Done";
+  }
+
+  const tx = await method.send(...args, ...(fn.mutability === "payable" ? [{ value: BigInt(payment || "0") }] : []));
+  const receipt = await tx.wait();
+  return `Transaction ${tx.hash} mined in block ${receipt?.blockNumber}`;
+}
+
+function renderFunction(descriptor: ContractDescriptor, address: HTMLInputElement, fn: FunctionDescriptor): HTMLElement {
+  const form = element("form");
+  form.append(element("h3", `${fn.name} (${fn.mutability})`));
+  if (fn.description) {
+    form.append(element("p", fn.description));
+  }
+
+  // The proof is produced with the encrypted arguments, so it has no field
+  const fields = fn.inputs.map((input) => {
+    if (input.kind === "proof") {
+      return null;
+    }
+    const field = element("input");
+    field.placeholder = input.kind === "encrypted" ? `${input.type} (encrypted in the browser)` : input.type;
+    const label = element("label", input.name);
+    label.append(field);
+    form.append(label);
+    return field;
+  });
+  const payment = element("input");
+  if (fn.mutability === "payable") {
+    payment.placeholder = "value (wei)";
+    const label = element("label", "value");
+    label.append(payment);
+    form.append(label);
+  }
+
+  const isCall = fn.mutability === "view" || fn.mutability === "pure";
+  const output = element("pre");
+  form.append(element("button", isCall ? "Call" : "Send"), output);
+  form.addEventListener("submit", async (event) => {
+    event.preventDefault();
+    output.textContent = isCall ? "Calling..." : "Sending...";
+    try {
+      const values = fields.map((field) => field?.value.trim() ?? "");
+      output.textContent = await callFunction(descriptor, address.value.trim(), fn, values, payment.value.trim());
+    } catch (error) {
+      output.textContent = `Error: ${(error as Error).message}`;
+    }
+  });
+  return form;
+}
+
+function renderContract(descriptor: ContractDescriptor): HTMLElement {
+  const section = element("section");
+  section.append(element("h2", `${descriptor.name} (${descriptor.example})`));
+
+  const address = element("input");
+  address.value = descriptor.address;
+  address.placeholder = "Deployed address";
+  const label = element("label", "Address");
+  label.append(address);
+  section.append(label);
+
+  for (const fn of descriptor.functions) {
+    section.append(renderFunction(descriptor, address, fn));
+  }
+  return section;
+}
+
+async function connect(status: HTMLElement): Promise<void> {
+  if (!window.ethereum) {
+    throw new Error("No wallet found; install MetaMask or another EIP-1193 wallet");
+  }
+  const provider = new BrowserProvider(window.ethereum);
+  signer = await provider.getSigner();
+  const { chainId } = await provider.getNetwork();
+  status.textContent = `Connected as ${await signer.getAddress()} (chain ${chainId})`;
+}
+
+const app = document.querySelector<HTMLDivElement>("#app")!;
+const status = element("p", "Not connected");
+const connectButton = element("button", "Connect wallet");
+connectButton.addEventListener("click", () => {
+  connect(status).catch((error: Error) => (status.textContent = `Error: ${error.message}`));
+});
+app.append(connectButton, status, ...contracts.map(renderContract));
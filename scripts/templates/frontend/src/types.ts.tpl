@@ -0,0 +1,40 @@
+/** RelayerEncryptedInput method adding an encrypted argument */
+export type EncryptMethod = "addBool" | "add8" | "add16" | "add32" | "add64" | "add128" | "add256" | "addAddress";
+
+/**
+ * A function argument:
+ * - plain: passed as typed, parsed according to its Solidity type
+ * - encrypted: an `externalE*` value, encrypted in the browser with `method`
+ * - proof: the input proof of the call's encrypted arguments, filled in automatically
+ */
+export interface InputDescriptor {
+  name: string;
+  type: string;
+  kind: "plain" | "encrypted" | "proof";
+  method?: EncryptMethod;
+}
+
+export interface OutputDescriptor {
+  name: string;
+  type: string;
+  /** An encrypted value, returned as a handle and decrypted for the connected account */
+  encrypted: boolean;
+}
+
+export interface FunctionDescriptor {
+  name: string;
+  /** Full signature, which tells overloads apart */
+  signature: string;
+  mutability: string;
+  description: string;
+  inputs: InputDescriptor[];
+  outputs: OutputDescriptor[];
+}
+
+export interface ContractDescriptor {
+  name: string;
+  example: string;
+  address: string;
+  abi: string[];
+  functions: FunctionDescriptor[];
+}
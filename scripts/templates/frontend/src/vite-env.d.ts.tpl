@@ -0,0 +1,5 @@
+/// <reference types="vite/client" />
+
+interface Window {
+  ethereum?: import("ethers").Eip1193Provider;
+}
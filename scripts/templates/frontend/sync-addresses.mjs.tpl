@@ -0,0 +1,28 @@
+// Copies the deployed contract addresses to .env.local, where Vite reads them.
+// Usage: npm run sync-addresses [-- <network>]
+import fs from "fs";
+
+const config = JSON.parse(fs.readFileSync(new URL("./contracts.json", import.meta.url), "utf-8"));
+const network = process.argv[2] ?? config.network;
+
+function readJson(file) {
+  const url = new URL(`../${file}`, import.meta.url);
+  return fs.existsSync(url) ? JSON.parse(fs.readFileSync(url, "utf-8")) : undefined;
+}
+
+const manifest = config.deployments === "manifest" ? readJson(config.manifest)?.[network] : undefined;
+const lines = [];
+for (const contract of config.contracts) {
+  const address =
+    config.deployments === "hardhat-deploy"
+      ? readJson(`deployments/${network}/${contract.name}.json`)?.address
+      : manifest?.contracts?.[contract.name]?.address;
+  if (address) {
+    lines.push(`${contract.env}=${address}`);
+  } else {
+    console.warn(`${contract.name}: no deployment found on ${network}`);
+  }
+}
+
+fs.writeFileSync(new URL("./.env.local", import.meta.url), lines.map((line) => `${line}\n`).join(""));
+console.log(`Wrote ${lines.length} address(es) to .env.local`);
@@ -0,0 +1,69 @@
+{{! Contract of an example created with `create-fhevm-example new`; imports arrive with their braces }}
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import {{imports}} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+
+/**
+ * @title {{contractName}}
+ * @dev {{summary}}
+ * @notice {{notice}}
+ * @custom:category {{category}}
+ */
+contract {{contractName}} is ZamaEthereumConfig {
+
+    // Encrypted state of each account
+{{#each fields}}
+    mapping(address => {{type}}) private {{variable}};
+{{/each}}
+
+    // Events
+{{#each fields}}
+    event {{event}}(address indexed account);
+{{/each}}
+{{#each fields}}
+
+    /**
+     * @dev Set the caller's encrypted {{label}}
+     * @param _encrypted{{Name}} Encrypted {{label}}
+     * @param _{{name}}Proof Proof for {{label}} encryption
+     */
+    function set{{Name}}({{externalType}} _encrypted{{Name}}, bytes calldata _{{name}}Proof) external {
+        {{variable}}[msg.sender] = FHE.fromExternal(_encrypted{{Name}}, _{{name}}Proof);
+
+        // Grant permissions
+        FHE.allowThis({{variable}}[msg.sender]);
+        FHE.allow({{variable}}[msg.sender], msg.sender);
+
+        emit {{event}}(msg.sender);
+    }
+{{#if numeric}}
+
+    /**
+     * @dev Add an encrypted amount to the caller's {{label}}
+     * @param _encryptedAmount Encrypted amount to add
+     * @param _amountProof Proof for amount encryption
+     */
+    function add{{Name}}({{externalType}} _encryptedAmount, bytes calldata _amountProof) external {
+        {{type}} amount = FHE.fromExternal(_encryptedAmount, _amountProof);
+
+        // Update encrypted {{label}}
+        {{variable}}[msg.sender] = FHE.add({{variable}}[msg.sender], amount);
+
+        // Grant permissions
+        FHE.allowThis({{variable}}[msg.sender]);
+        FHE.allow({{variable}}[msg.sender], msg.sender);
+
+        emit {{event}}(msg.sender);
+    }
+{{/if}}
+
+    /**
+     * @dev Get an account's encrypted {{label}}
+     */
+    function getEncrypted{{Name}}(address _account) external view returns ({{type}}) {
+        return {{variable}}[_account];
+    }
+{{/each}}
+}
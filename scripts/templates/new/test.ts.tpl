@@ -0,0 +1,88 @@
+{{! Test suite of an example created with `create-fhevm-example new`; sample values and assertions arrive rendered }}
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import hre from "hardhat";
+import { {{contractName}} } from "../../types";
+
+/**
+ * {{contractName}} Test Suite
+ *
+ * Demonstrates:
+ * - Encrypted inputs created with hre.fhevm.createEncryptedInput
+ * - Per-account encrypted state with FHE permissions
+ * - User decryption of the caller's own values
+ */
+
+describe("{{contractName}}", function () {
+  let contract: {{contractName}};
+  let signers: HardhatEthersSigner[];
+  let contractAddress: string;
+
+  before(async function () {
+    if (!hre.fhevm.isMock) {
+      throw new Error("FHEVM environment not detected.");
+    }
+    signers = await hre.ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    const Factory = await hre.ethers.getContractFactory("{{contractName}}");
+    contract = await Factory.deploy();
+    await contract.waitForDeployment();
+    contractAddress = await contract.getAddress();
+  });
+{{#each fields}}
+
+  describe("{{title}}", function () {
+    it("✓ Should store and decrypt {{label}}", async function () {
+      const user = signers[1];
+
+      const input = hre.fhevm.createEncryptedInput(contractAddress, user.address);
+      input.{{inputMethod}}({{sample}});
+      const encrypted = await input.encrypt();
+
+      const tx = await contract.connect(user).set{{Name}}(encrypted.handles[0], encrypted.inputProof);
+      await expect(tx).to.emit(contract, "{{event}}").withArgs(user.address);
+
+      const encrypted{{Name}} = await contract.getEncrypted{{Name}}(user.address);
+      const decrypted = await hre.fhevm.{{decryptMethod}}(contractAddress, encrypted{{Name}}, user);
+      {{check}}
+    });
+
+    it("✓ Should keep {{label}} separate per account", async function () {
+      const user = signers[1];
+      const other = signers[2];
+
+      const input = hre.fhevm.createEncryptedInput(contractAddress, user.address);
+      input.{{inputMethod}}({{sample}});
+      const encrypted = await input.encrypt();
+      await contract.connect(user).set{{Name}}(encrypted.handles[0], encrypted.inputProof);
+
+      const userValue = await contract.getEncrypted{{Name}}(user.address);
+      const otherValue = await contract.getEncrypted{{Name}}(other.address);
+      expect(otherValue).to.not.equal(userValue);
+    });
+{{#if numeric}}
+
+    it("✓ Should add to {{label}}", async function () {
+      const user = signers[1];
+
+      const initial = hre.fhevm.createEncryptedInput(contractAddress, user.address);
+      initial.{{inputMethod}}(42);
+      const encryptedInitial = await initial.encrypt();
+      await contract.connect(user).set{{Name}}(encryptedInitial.handles[0], encryptedInitial.inputProof);
+
+      const amount = hre.fhevm.createEncryptedInput(contractAddress, user.address);
+      amount.{{inputMethod}}(8);
+      const encryptedAmount = await amount.encrypt();
+      const tx = await contract.connect(user).add{{Name}}(encryptedAmount.handles[0], encryptedAmount.inputProof);
+      await expect(tx).to.emit(contract, "{{event}}").withArgs(user.address);
+
+      const encrypted{{Name}} = await contract.getEncrypted{{Name}}(user.address);
+      const decrypted = await hre.fhevm.{{decryptMethod}}(contractAddress, encrypted{{Name}}, user);
+      expect(decrypted).to.equal(50);
+    });
+{{/if}}
+  });
+{{/each}}
+});
@@ -0,0 +1,13 @@
+{{! Fields set on top of the template variant's package.json; values arrive escaped for JSON strings }}
+{
+  "name": "{{name}}",
+  "description": "{{description}}",
+{{#if homepage}}
+  "homepage": "{{homepage}}",
+{{/if}}
+  "scripts": {
+{{#if deployCommand}}
+    "deploy": "{{deployCommand}}"
+{{/if}}
+  }
+}
@@ -0,0 +1,35 @@
+{{! One example of a multi-example README; table cells arrive escaped }}
+### {{title}}
+
+{{description}}
+
+- **Example:** `{{name}}`
+- **Contract:** `{{contractName}}` (`{{contractFile}}`)
+- **Test:** `{{testFile}}`
+- **FHE types:** {{fheTypes}}
+{{#if functions}}
+
+#### Functions
+
+| Function | Mutability | Description |
+| --- | --- | --- |
+{{#each functions}}
+| `{{signature}}` | {{mutability}} | {{description}} |
+{{/each}}
+{{/if}}
+{{#if events}}
+
+#### Events
+
+| Event | Parameters |
+| --- | --- |
+{{#each events}}
+| `{{name}}` | `{{parameters}}` |
+{{/each}}
+{{/if}}
+
+#### Run the tests
+
+```bash
+npx hardhat test {{testFile}}
+```
@@ -0,0 +1,65 @@
+{{! README.md at the root of a workspace generated with --all }}
+# FHEVM Examples Workspace
+
+Every FHEVM example and category, generated as packages of one [npm workspaces](https://docs.npmjs.com/cli/using-npm/workspaces) monorepo from the **{{template}}** template.
+
+{{#if commit}}
+Generated from commit `{{commit}}`. `{{manifestFile}}` lists every package, its contracts and its dependencies.
+{{else}}
+`{{manifestFile}}` lists every package, its contracts and its dependencies.
+{{/if}}
+
+## Structure
+
+```
+.
+├── examples/
+│   └── [One package per example]
+├── categories/
+│   └── [One package per category]
+├── {{manifestFile}}          # What was generated, and from which commit
+└── package.json                  # Workspace root
+```
+
+## Usage
+
+Install the dependencies of every package once, from the root:
+
+```bash
+npm install
+```
+
+Compile and test every package:
+
+```bash
+npm run compile
+npm run test
+```
+
+Or work on a single package:
+
+```bash
+npm run test --workspace examples/<name>
+```
+
+`npm run deploy` in a package targets the **{{network}}** network.
+
+## Examples
+
+| Package | Directory | Contracts |
+| --- | --- | --- |
+{{#each examples}}
+| {{title}} (`{{name}}`) | `{{dir}}` | {{contracts}} |
+{{/each}}
+
+## Categories
+
+| Package | Directory | Contracts |
+| --- | --- | --- |
+{{#each categories}}
+| {{title}} (`{{name}}`) | `{{dir}}` | {{contracts}} |
+{{/each}}
+
+## License
+
+BSD-3-Clause-Clear
@@ -0,0 +1,129 @@
+import { expect } from "chai";
+import { AccessGrant, analyzeAccessControl, RETURN_VALUE } from "../../scripts/lib/acl";
+import { SolidityParseError } from "../../scripts/lib/solidity";
+
+/**
+ * Access Control Analysis Test Suite
+ *
+ * Covers:
+ * - Encrypted fields of mappings, arrays and structs
+ * - Grants on different keys of one mapping kept apart, grants on one value merged
+ * - Handles followed through storage pointers, struct literals, push and return
+ */
+
+const SOURCE = `
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+
+contract Bank {
+  struct Account {
+    address owner;
+    euint64 balance;
+  }
+
+  mapping(address => euint64) private balances;
+  Account[] private accounts;
+  euint64 private total;
+  euint64 private unused;
+
+  function transfer(address to, externalEuint64 amount, bytes calldata proof) external {
+    euint64 value = FHE.fromExternal(amount, proof);
+    balances[msg.sender] = FHE.sub(balances[msg.sender], value);
+    balances[to] = FHE.add(balances[to], value);
+    FHE.allowThis(balances[msg.sender]);
+    FHE.allow(balances[msg.sender], msg.sender);
+    FHE.allowThis(balances[to]);
+    FHE.allow(balances[to], to);
+  }
+
+  function open(externalEuint64 amount, bytes calldata proof) external {
+    euint64 balance = FHE.fromExternal(amount, proof);
+    accounts.push(Account({ owner: msg.sender, balance: balance }));
+    FHE.allowThis(balance);
+    FHE.allow(balance, msg.sender);
+  }
+
+  function deposit(uint256 id, externalEuint64 amount, bytes calldata proof) external {
+    Account storage account = accounts[id];
+    account.balance = FHE.add(account.balance, FHE.fromExternal(amount, proof));
+    total = FHE.add(total, account.balance);
+    FHE.allowThis(account.balance);
+    FHE.allow(account.balance, account.owner);
+    FHE.allowTransient(account.balance, msg.sender);
+    FHE.allowThis(total);
+    FHE.makePubliclyDecryptable(total);
+  }
+
+  function doubled() external returns (euint64) {
+    euint64 result = FHE.add(total, total);
+    FHE.allow(result, msg.sender);
+    return result;
+  }
+}
+`;
+
+describe("Access control analysis", function () {
+  const matrix = analyzeAccessControl(SOURCE, "Bank");
+  const grantsOf = (fn: string): AccessGrant[] => matrix.grants.filter((grant) => grant.function === fn);
+
+  it("Should list the encrypted fields in declaration order", function () {
+    expect(matrix.contract).to.equal("Bank");
+    expect(matrix.fields).to.deep.equal(["balances[]", "accounts[].balance", "total", "unused"]);
+  });
+
+  it("Should keep grants on different keys of a mapping apart", function () {
+    expect(grantsOf("transfer")).to.deep.equal([
+      {
+        function: "transfer",
+        field: "balances[]",
+        value: "balances[msg.sender]",
+        contract: true,
+        accounts: ["msg.sender"],
+        transient: [],
+        public: false,
+      },
+      {
+        function: "transfer",
+        field: "balances[]",
+        value: "balances[to]",
+        contract: true,
+        accounts: ["to"],
+        transient: [],
+        public: false,
+      },
+    ]);
+  });
+
+  it("Should merge grants on the same value through a storage pointer", function () {
+    const [balance, total] = grantsOf("deposit");
+    expect(balance).to.include({ field: "accounts[].balance", value: "accounts[id].balance", contract: true });
+    expect(balance.accounts).to.deep.equal(["accounts[id].owner"]);
+    expect(balance.transient).to.deep.equal(["msg.sender"]);
+    expect(total).to.include({ field: "total", value: "total", contract: true, public: true });
+  });
+
+  it("Should attribute a local pushed in a struct literal to the array element", function () {
+    expect(grantsOf("open").map((grant) => grant.value)).to.deep.equal(["accounts[].balance"]);
+  });
+
+  it("Should report returned handles as the return value", function () {
+    expect(grantsOf("doubled")).to.deep.equal([
+      {
+        function: "doubled",
+        field: RETURN_VALUE,
+        value: RETURN_VALUE,
+        contract: false,
+        accounts: ["msg.sender"],
+        transient: [],
+        public: false,
+      },
+    ]);
+  });
+
+  it("Should report a missing contract with the file name", function () {
+    expect(() => analyzeAccessControl(SOURCE, "Missing", "contracts/Bank.sol"))
+      .to.throw(SolidityParseError)
+      .with.property("filePath", "contracts/Bank.sol");
+  });
+});
@@ -0,0 +1,55 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { addExample } from "../../scripts/lib/add";
+import { loadRegistry } from "../../scripts/lib/registry";
+
+/**
+ * Adding Examples Test Suite
+ *
+ * Covers:
+ * - Contract name clashes with the project's sources, for plain and exercise-marked contracts
+ * - Dry runs that plan the example's files without writing them
+ */
+
+describe("Adding examples", function () {
+  const registry = loadRegistry();
+  let projectDir: string;
+
+  function writeProjectFile(name: string, content: string): void {
+    const file = path.join(projectDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  beforeEach(function () {
+    projectDir = fs.mkdtempSync(path.join(os.tmpdir(), "add-"));
+    writeProjectFile("hardhat.config.ts", 'import "@fhevm/hardhat-plugin";\nexport default {};\n');
+    writeProjectFile("package.json", JSON.stringify({ devDependencies: { "@fhevm/solidity": "^0.9.1" } }));
+  });
+
+  afterEach(function () {
+    fs.rmSync(projectDir, { recursive: true, force: true });
+  });
+
+  it("Should plan an example's files on a dry run without writing them", function () {
+    const plan = addExample(registry, "encrypted-treasury", projectDir, true);
+    expect([...plan.files.keys()]).to.include("contracts/EncryptedTreasury.sol");
+    expect(fs.existsSync(path.join(projectDir, "contracts"))).to.be.false;
+  });
+
+  it("Should refuse a contract name declared elsewhere in the project", function () {
+    writeProjectFile("contracts/Other.sol", "pragma solidity ^0.8.24;\ncontract EncryptedGaming {}\n");
+    expect(() => addExample(registry, "encrypted-gaming", projectDir, true)).to.throw(
+      "EncryptedGaming (from contracts/EncryptedGaming.sol) is already declared in contracts/Other.sol"
+    );
+  });
+
+  it("Should refuse a clashing contract that has exercise regions", function () {
+    writeProjectFile("contracts/Other.sol", "pragma solidity ^0.8.24;\ncontract EncryptedTreasury {}\n");
+    expect(() => addExample(registry, "encrypted-treasury", projectDir, true)).to.throw(
+      "EncryptedTreasury (from contracts/EncryptedTreasury.sol) is already declared in contracts/Other.sol"
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import { mergeText, unifiedDiff } from "../../scripts/lib/diff";
+
+/**
+ * Line Diffs Test Suite
+ *
+ * Covers:
+ * - Unified diffs of changed, added and identical files
+ * - Three-way merges of generator changes into user-edited files
+ * - Conflicts on overlapping changes, line endings and final newlines
+ */
+
+const BASE = ["one", "two", "three", "four", "five", "six", "seven", ""].join("\n");
+
+function edit(text: string, replacements: Record<string, string>): string {
+  return text
+    .split("\n")
+    .map((line) => replacements[line] ?? line)
+    .join("\n");
+}
+
+describe("Line diffs", function () {
+  describe("unifiedDiff", function () {
+    it("Should be empty for identical texts, whatever their line endings", function () {
+      expect(unifiedDiff(BASE, BASE, "a/file", "b/file")).to.equal("");
+      expect(unifiedDiff(BASE, BASE.replace(/\n/g, "\r\n"), "a/file", "b/file")).to.equal("");
+    });
+
+    it("Should render changed lines with context", function () {
+      const diff = unifiedDiff(BASE, edit(BASE, { four: "FOUR" }), "a/file", "b/file");
+      expect(diff).to.equal(
+        [
+          "--- a/file",
+          "+++ b/file",
+          "@@ -1,7 +1,7 @@",
+          " one",
+          " two",
+          " three",
+          "-four",
+          "+FOUR",
+          " five",
+          " six",
+          " seven",
+          "",
+        ].join("\n")
+      );
+    });
+
+    it("Should diff a new file against an empty one", function () {
+      expect(unifiedDiff("", "new\n", "a/file", "b/file")).to.contain("@@ -0,0 +1,1 @@\n+new");
+    });
+  });
+
+  describe("mergeText", function () {
+    it("Should keep changes both sides made to different lines", function () {
+      const ours = edit(BASE, { one: "ONE" });
+      const theirs = edit(BASE, { seven: "SEVEN" });
+      const result = mergeText(BASE, ours, theirs, "yours", "generated");
+      expect(result.conflicts).to.equal(0);
+      expect(result.text).to.equal(edit(BASE, { one: "ONE", seven: "SEVEN" }));
+    });
+
+    it("Should take a change only one side made", function () {
+      const theirs = edit(BASE, { three: "THREE" });
+      expect(mergeText(BASE, BASE, theirs, "yours", "generated")).to.deep.equal({ text: theirs, conflicts: 0 });
+      expect(mergeText(BASE, theirs, BASE, "yours", "generated")).to.deep.equal({ text: theirs, conflicts: 0 });
+    });
+
+    it("Should accept the same change made on both sides", function () {
+      const changed = edit(BASE, { four: "FOUR" });
+      expect(mergeText(BASE, changed, changed, "yours", "generated")).to.deep.equal({ text: changed, conflicts: 0 });
+    });
+
+    it("Should mark conflicting changes to the same line", function () {
+      const ours = edit(BASE, { four: "mine" });
+      const theirs = edit(BASE, { four: "generated" });
+      const result = mergeText(BASE, ours, theirs, "yours", "generated");
+      expect(result.conflicts).to.equal(1);
+      expect(result.text).to.equal(
+        edit(BASE, { four: ["<<<<<<< yours", "mine", "=======", "generated", ">>>>>>> generated"].join("\n") })
+      );
+    });
+
+    it("Should merge insertions and deletions", function () {
+      const ours = BASE.replace("two\n", "");
+      const theirs = BASE.replace("six\n", "six\nsix and a half\n");
+      const result = mergeText(BASE, ours, theirs, "yours", "generated");
+      expect(result.conflicts).to.equal(0);
+      expect(result.text).to.equal(ours.replace("six\n", "six\nsix and a half\n"));
+    });
+
+    it("Should follow the line endings of the user's file", function () {
+      const ours = edit(BASE, { one: "ONE" }).replace(/\n/g, "\r\n");
+      const theirs = edit(BASE, { seven: "SEVEN" });
+      const result = mergeText(BASE, ours, theirs, "yours", "generated");
+      expect(result.text).to.equal(edit(BASE, { one: "ONE", seven: "SEVEN" }).replace(/\n/g, "\r\n"));
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { expect } from "chai";
+import { DocIndex, DocPage } from "../../scripts/lib/docs";
+import {
+  COMMONMARK_FORMAT,
+  DOC_FORMATS,
+  DOCUSAURUS_FORMAT,
+  getDocFormat,
+  GITBOOK_FORMAT,
+  HTML_FORMAT,
+} from "../../scripts/lib/formats";
+
+/**
+ * Documentation Formats Test Suite
+ *
+ * Covers:
+ * - Pages and index files of the GitBook, CommonMark, Docusaurus and HTML formats
+ * - Format lookup by name and alias
+ * - The HTML search index of function names and NatSpec
+ */
+
+const PAGE: DocPage = {
+  name: "encrypted-vault",
+  title: "Encrypted Vault",
+  description: "Stores encrypted balances",
+  category: "treasury",
+  blocks: [
+    { type: "paragraph", text: "Uses `euint64` {handles} <here>, see [Treasury](./encrypted-treasury.md)" },
+    { type: "hint", style: "info", blocks: [{ type: "paragraph", text: "Run it with **Hardhat**" }] },
+    {
+      type: "tabs",
+      tabs: [
+        { title: "Vault.sol", blocks: [{ type: "code", language: "solidity", code: "contract Vault {}" }] },
+        { title: "Vault.ts", blocks: [{ type: "code", language: "typescript", code: "const a = 1 < 2;" }] },
+      ],
+    },
+    { type: "heading", level: 2, text: "API Reference" },
+    { type: "table", header: ["Parameter", "Type"], rows: [["`amount`", "`euint64 | bool`"]] },
+    { type: "list", items: ["first", "second"] },
+  ],
+};
+
+const INDEX: DocIndex = {
+  title: "FHEVM Examples Documentation",
+  categories: [
+    {
+      name: "treasury",
+      title: "Treasury",
+      pages: [
+        {
+          name: "encrypted-vault",
+          title: "Encrypted Vault",
+          description: "Stores encrypted balances",
+          functions: [{ name: "deposit", text: "Deposit an encrypted amount" }],
+        },
+      ],
+    },
+  ],
+};
+
+describe("Documentation formats", function () {
+  describe("Lookup", function () {
+    it("Should find formats by name and alias", function () {
+      expect([...DOC_FORMATS.keys()]).to.deep.equal(["gitbook", "commonmark", "docusaurus", "html"]);
+      expect(getDocFormat("commonmark")).to.equal(COMMONMARK_FORMAT);
+      expect(getDocFormat("markdown")).to.equal(COMMONMARK_FORMAT);
+    });
+
+    it("Should not resolve prototype members as formats", function () {
+      expect(getDocFormat("constructor")).to.be.undefined;
+      expect(getDocFormat("toString")).to.be.undefined;
+      expect(getDocFormat("pdf")).to.be.undefined;
+    });
+  });
+
+  describe("gitbook", function () {
+    const page = GITBOOK_FORMAT.renderPage(PAGE, INDEX);
+
+    it("Should render hints and tabs with GitBook tags", function () {
+      expect(GITBOOK_FORMAT.getPageFile(PAGE.name)).to.equal("encrypted-vault.md");
+      expect(page).to.match(/^# Encrypted Vault\n\n/);
+      expect(page).to.contain('{% hint style="info" %}\nRun it with **Hardhat**\n{% endhint %}');
+      expect(page).to.contain('{% tabs %}\n{% tab title="Vault.sol" %}\n```solidity\ncontract Vault {}\n```');
+      expect(page).to.contain("| `amount` | `euint64 \\| bool` |");
+    });
+
+    it("Should list every page in SUMMARY.md", function () {
+      expect(GITBOOK_FORMAT.renderIndex(INDEX)).to.deep.equal({
+        "SUMMARY.md": "# FHEVM Examples Documentation\n\n## Treasury\n\n- [Encrypted Vault](encrypted-vault.md)\n\n",
+      });
+    });
+  });
+
+  describe("commonmark", function () {
+    const page = COMMONMARK_FORMAT.renderPage(PAGE, INDEX);
+
+    it("Should render hints as blockquotes and tabs as captioned sections", function () {
+      expect(page).not.to.contain("{%");
+      expect(page).to.contain("> **Note**\n>\n> Run it with **Hardhat**");
+      expect(page).to.contain("**Vault.sol**\n\n```solidity\ncontract Vault {}\n```\n\n**Vault.ts**");
+    });
+
+    it("Should describe every page in README.md", function () {
+      expect(COMMONMARK_FORMAT.renderIndex(INDEX)["README.md"]).to.contain(
+        "- [Encrypted Vault](encrypted-vault.md): Stores encrypted balances"
+      );
+    });
+  });
+
+  describe("docusaurus", function () {
+    const page = DOCUSAURUS_FORMAT.renderPage(PAGE, INDEX);
+
+    it("Should start MDX pages with front matter and import the tab components they use", function () {
+      expect(DOCUSAURUS_FORMAT.getPageFile(PAGE.name)).to.equal("encrypted-vault.mdx");
+      expect(page).to.match(/^---\nid: encrypted-vault\ntitle: "Encrypted Vault"\n/);
+      expect(page).to.contain('import Tabs from "@theme/Tabs";');
+      expect(page).to.contain('<TabItem value="Vault.sol" label="Vault.sol">');
+      expect(page).to.contain(":::info\n\nRun it with **Hardhat**\n\n:::");
+    });
+
+    it("Should escape JSX outside code and point page links at MDX files", function () {
+      expect(page).to.contain(
+        "Uses `euint64` &#123;handles&#125; &lt;here&gt;, see [Treasury](./encrypted-treasury.mdx)"
+      );
+      expect(page).to.contain("const a = 1 < 2;");
+    });
+
+    it("Should group pages by category in sidebars.js", function () {
+      const sidebars = DOCUSAURUS_FORMAT.renderIndex(INDEX)["sidebars.js"];
+      expect(sidebars).to.contain('"Treasury"');
+      expect(sidebars).to.contain('"encrypted-vault"');
+    });
+  });
+
+  describe("html", function () {
+    const page = HTML_FORMAT.renderPage(PAGE, INDEX);
+    const files = HTML_FORMAT.renderIndex(INDEX);
+
+    it("Should escape text and code and point page links at HTML files", function () {
+      expect(HTML_FORMAT.getPageFile(PAGE.name)).to.equal("encrypted-vault.html");
+      expect(page).to.contain(
+        '<p>Uses <code>euint64</code> {handles} &lt;here&gt;, see <a href="./encrypted-treasury.html">Treasury</a></p>'
+      );
+      expect(page).to.contain('<code class="language-typescript">const a = 1 &lt; 2;</code>');
+      expect(page).to.contain('<h2 id="api-reference">API Reference</h2>');
+      expect(page).to.contain('<button type="button" role="tab">Vault.sol</button>');
+    });
+
+    it("Should write the site's index, assets and search index", function () {
+      expect(Object.keys(files)).to.deep.equal([
+        "index.html",
+        "assets/style.css",
+        "assets/site.js",
+        "assets/search-index.js",
+      ]);
+      expect(files["index.html"]).to.contain('<a href="encrypted-vault.html">Encrypted Vault</a>');
+    });
+
+    it("Should index function names and NatSpec for search", function () {
+      const source = files["assets/search-index.js"];
+      expect(source).to.match(/^window\.DOCS_SEARCH_INDEX = /);
+      const entries = JSON.parse(source.replace(/^window\.DOCS_SEARCH_INDEX = /, "").replace(/;\n$/, ""));
+      expect(entries).to.deep.equal([
+        {
+          title: "Encrypted Vault",
+          description: "Stores encrypted balances",
+          category: "Treasury",
+          href: "encrypted-vault.html",
+          functions: [{ name: "deposit", text: "Deposit an encrypted amount" }],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  applyWriteOperations,
+  assertWritable,
+  defaultProjectExtras,
+  generateProject,
+  PlannedFile,
+  planWrite,
+} from "../../scripts/lib/project";
+import { loadRegistry } from "../../scripts/lib/registry";
+
+/**
+ * Project Output Test Suite
+ *
+ * Covers:
+ * - The refuse, force and merge policies for output directories that already contain files
+ * - Dry runs, which preview the changes under every policy and write nothing
+ */
+
+const PACKAGE_JSON = JSON.stringify({ devDependencies: { "@fhevm/solidity": "^0.9.1" } }, null, 2);
+
+describe("Project output", function () {
+  let outputDir: string;
+
+  const plan = {
+    files: new Map<string, PlannedFile>([
+      ["contracts/Vault.sol", { content: "contract Vault {}\n" }],
+      ["README.md", { content: "# Vault\n", shared: true }],
+    ]),
+  };
+
+  function writeOutputFile(name: string, content: string): void {
+    const file = path.join(outputDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function readOutputFile(name: string): string {
+    return fs.readFileSync(path.join(outputDir, name), "utf-8");
+  }
+
+  beforeEach(function () {
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "project-"));
+  });
+
+  afterEach(function () {
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  it("Should write into an empty directory by default", function () {
+    assertWritable(outputDir, "refuse");
+    applyWriteOperations(outputDir, planWrite(plan, outputDir, "refuse"));
+    expect(readOutputFile("contracts/Vault.sol")).to.equal("contract Vault {}\n");
+  });
+
+  it("Should refuse a directory that already contains files by default", function () {
+    writeOutputFile("notes.txt", "teammate's work\n");
+    expect(() => assertWritable(outputDir, "refuse")).to.throw("already contains files. Pass --force");
+    expect(() => planWrite(plan, path.join(outputDir, "notes.txt"), "force")).to.throw("is not a directory");
+  });
+
+  it("Should replace the directory's contents with --force", function () {
+    writeOutputFile("notes.txt", "old\n");
+    writeOutputFile("README.md", "# Old\n");
+    const operations = planWrite(plan, outputDir, "force");
+    expect(operations.map(({ path: file, action }) => [file, action])).to.deep.equal([
+      ["contracts/Vault.sol", "create"],
+      ["README.md", "update"],
+      ["notes.txt", "delete"],
+    ]);
+
+    applyWriteOperations(outputDir, operations);
+    expect(readOutputFile("README.md")).to.equal("# Vault\n");
+    expect(fs.existsSync(path.join(outputDir, "notes.txt"))).to.be.false;
+  });
+
+  it("Should keep the project's shared files and refuse conflicts with --merge", function () {
+    writeOutputFile("hardhat.config.ts", "export default {};\n");
+    writeOutputFile("package.json", PACKAGE_JSON);
+    writeOutputFile("README.md", "# Existing project\n");
+    const operations = planWrite(plan, outputDir, "merge");
+    expect(operations.map(({ path: file, action }) => [file, action])).to.deep.equal([
+      ["contracts/Vault.sol", "create"],
+      ["README.md", "keep"],
+    ]);
+    applyWriteOperations(outputDir, operations);
+    expect(readOutputFile("README.md")).to.equal("# Existing project\n");
+
+    writeOutputFile("contracts/Vault.sol", "contract Vault { uint256 x; }\n");
+    const conflicting = planWrite(plan, outputDir, "merge");
+    expect(conflicting[0]).to.include({ path: "contracts/Vault.sol", action: "conflict" });
+    expect(() => applyWriteOperations(outputDir, conflicting)).to.throw("already exist with different content");
+  });
+
+  it("Should refuse to merge into a directory that is not an FHEVM project", function () {
+    writeOutputFile("notes.txt", "teammate's work\n");
+    expect(() => planWrite(plan, outputDir, "merge")).to.throw("is not an FHEVM Hardhat project");
+  });
+
+  it("Should preview a non-empty directory on a dry run without writing or throwing", function () {
+    this.timeout(20000);
+    writeOutputFile("notes.txt", "teammate's work\n");
+    const options = { examples: ["encrypted-treasury"], network: "localhost" as const, extras: defaultProjectExtras() };
+    generateProject(loadRegistry(), options, outputDir, { policy: "refuse", dryRun: true });
+    expect(fs.readdirSync(outputDir)).to.deep.equal(["notes.txt"]);
+    expect(() => generateProject(loadRegistry(), options, outputDir, { policy: "refuse", dryRun: false })).to.throw(
+      "already contains files"
+    );
+    expect(fs.readdirSync(outputDir)).to.deep.equal(["notes.txt"]);
+  });
+});
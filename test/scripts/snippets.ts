@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import { parseSolidity } from "../../scripts/lib/solidity";
+import { extractTestSnippets, SnippetError, stripRegionMarkers } from "../../scripts/lib/snippets";
+
+/**
+ * Test Snippets Test Suite
+ *
+ * Covers:
+ * - Named regions and ✓/✗ test cases, dedented and without markers
+ * - Attribution of each snippet to the contract function it asserts on
+ * - Errors for unnamed, unclosed and unopened regions
+ */
+
+const CONTRACT = `
+contract Treasury {
+  function createFund(string calldata name, uint64 amount) external {}
+  function withdraw(uint256 id, uint64 amount) external {}
+  function getFundInfo(uint256 id) external view returns (string memory, bool) {}
+  function getTotal() external view returns (uint64) {}
+}
+`;
+
+const [treasury] = parseSolidity(CONTRACT).contracts;
+
+const TESTS = `
+describe("Treasury", function () {
+  it("✓ Should get fund information", async function () {
+    await contract.createFund("Info", 5000);
+    const [name, active] = await contract.getFundInfo(0);
+    expect(name).to.equal("Info");
+    expect(active).to.be.true;
+  });
+
+  it("✓ Should track the total", async function () {
+    await contract.createFund("A", 5000);
+    await contract.createFund("B", 3000);
+    const total = await contract.getTotal();
+    await contract.createFund("C", 1000);
+    expect(await decrypt(total)).to.equal(8000);
+  });
+
+  it("✗ Should reject overdrafts", async function () {
+    await contract.createFund("A", 10);
+    await expect(contract.withdraw(0, 20)).to.be.revertedWith("Insufficient funds");
+  });
+
+  it("✓ Should withdraw", async function () {
+    await contract.createFund("A", 10);
+    const tx = await contract.withdraw(0, 5);
+    await expect(tx).to.emit(contract, "Withdrawn");
+  });
+
+  it("Should not be a snippet", async function () {
+    await contract.getTotal();
+  });
+
+  // #region create-fund
+  await contract.createFund("Reserve", 100);
+  // #endregion
+});
+`;
+
+describe("Test snippets", function () {
+  const snippets = extractTestSnippets(TESTS, "test/Treasury.ts", treasury.functions);
+  const attribution = Object.fromEntries(snippets.map((snippet) => [snippet.caption, snippet.function]));
+
+  it("Should extract regions first, then marked test cases", function () {
+    expect(snippets.map((snippet) => [snippet.kind, snippet.caption])).to.deep.equal([
+      ["region", "Create fund"],
+      ["correct", "Should get fund information"],
+      ["correct", "Should track the total"],
+      ["pitfall", "Should reject overdrafts"],
+      ["correct", "Should withdraw"],
+    ]);
+    expect(snippets[0].code).to.equal('await contract.createFund("Reserve", 100);');
+    expect(snippets[1].code.split("\n")[0]).to.equal('it("✓ Should get fund information", async function () {');
+  });
+
+  it("Should attribute a case to the call whose destructured result is asserted", function () {
+    expect(attribution["Should get fund information"]).to.equal("getFundInfo");
+  });
+
+  it("Should attribute a case to the call that set the asserted variable, not the calls after it", function () {
+    expect(attribution["Should track the total"]).to.equal("getTotal");
+    expect(attribution["Should withdraw"]).to.equal("withdraw");
+  });
+
+  it("Should attribute an expected revert to the call inside expect", function () {
+    expect(attribution["Should reject overdrafts"]).to.equal("withdraw");
+  });
+
+  it("Should attribute a case to the last call before expect otherwise", function () {
+    const source = [
+      'it("✓ Should withdraw", async function () {',
+      "  await contract.withdraw(0, 5);",
+      "  expect(1).to.equal(1);",
+      "});",
+    ];
+    expect(extractTestSnippets(source.join("\n"), "test/A.ts", treasury.functions)[0].function).to.equal("withdraw");
+    expect(attribution["Create fund"]).to.equal("createFund");
+  });
+
+  it("Should leave snippets calling no contract function unattributed", function () {
+    const source = 'it("✓ Should add", async function () {\n  expect(1 + 1).to.equal(2);\n});';
+    const [snippet] = extractTestSnippets(source, "test/A.ts");
+    expect(snippet.function).to.be.undefined;
+  });
+
+  it("Should strip region markers from whole test files", function () {
+    expect(stripRegionMarkers("a\n  // #region name\nb\n// #endregion\nc")).to.equal("a\nb\nc");
+  });
+
+  it("Should report region errors with the line", function () {
+    expect(() => extractTestSnippets("// #region\n// #endregion", "test/A.ts")).to.throw(
+      SnippetError,
+      "A.ts:1: #region needs a name"
+    );
+    expect(() => extractTestSnippets("// #region open", "test/A.ts")).to.throw(SnippetError, "is never closed");
+    expect(() => extractTestSnippets("\n// #endregion", "test/A.ts")).to.throw(
+      SnippetError,
+      "A.ts:2: #endregion without a matching #region"
+    );
+  });
+});
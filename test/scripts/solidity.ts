@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { getMainContract, isFheType, parseNatSpec, parseSolidity, SolidityParseError } from "../../scripts/lib/solidity";
+
+/**
+ * Solidity Source Model Test Suite
+ *
+ * Covers:
+ * - Contracts, interfaces, libraries and abstract contracts in one file
+ * - NatSpec on contracts and functions, in block and `///` form
+ * - Reverts, emitted events and FHE types read from function bodies
+ * - Choosing the main contract of a file
+ */
+
+const SOURCE = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import { FHE, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import "./Base.sol";
+
+interface IVault {
+  function deposit(externalEuint64 amount, bytes calldata proof) external;
+}
+
+library Math {
+  function double(uint256 x) internal pure returns (uint256) {
+    return x * 2;
+  }
+}
+
+/**
+ * @title Vault
+ * @notice Stores encrypted balances
+ * @custom:category treasury
+ */
+contract Vault is IVault {
+  error NotOwner();
+  event Deposited(address indexed account);
+
+  address public owner;
+  mapping(address => euint64) private balances;
+
+  constructor(address initialOwner) {
+    owner = initialOwner;
+  }
+
+  modifier onlyOwner() {
+    if (msg.sender != owner) revert NotOwner();
+    _;
+  }
+
+  /// @notice Deposit an encrypted amount
+  /// @param amount Encrypted amount
+  /// @param proof Input proof
+  function deposit(externalEuint64 amount, bytes calldata proof) external {
+    require(proof.length > 0, "Empty proof");
+    balances[msg.sender] = FHE.fromExternal(amount, proof);
+    emit Deposited(msg.sender);
+  }
+
+  /**
+   * @notice Balance of the caller
+   * @return balance The encrypted balance
+   */
+  function balanceOf() external view returns (euint64 balance) {
+    return balances[msg.sender];
+  }
+
+  function reset(address account) public onlyOwner {
+    balances[account] = FHE.asEuint64(0);
+  }
+
+  function helper() internal {}
+
+  // function commentedOut() external {}
+}
+`;
+
+describe("Solidity source model", function () {
+  const model = parseSolidity(SOURCE, "contracts/Vault.sol");
+  const vault = model.contracts.find((contract) => contract.name === "Vault")!;
+
+  it("Should read the pragma and imports", function () {
+    expect(model.pragma).to.equal("^0.8.24");
+    expect(model.imports.map((entry) => entry.path)).to.deep.equal(["@fhevm/solidity/lib/FHE.sol", "./Base.sol"]);
+    expect(model.imports[0].symbols).to.deep.equal(["FHE", "euint64", "externalEuint64"]);
+  });
+
+  it("Should describe every declared contract with its kind", function () {
+    expect(model.contracts.map((contract) => [contract.name, contract.kind])).to.deep.equal([
+      ["IVault", "interface"],
+      ["Math", "library"],
+      ["Vault", "contract"],
+    ]);
+    expect(vault.baseContracts).to.deep.equal(["IVault"]);
+  });
+
+  it("Should read contract NatSpec", function () {
+    expect(vault.natspec.title).to.equal("Vault");
+    expect(vault.natspec.notice).to.equal("Stores encrypted balances");
+    expect(vault.natspec.custom).to.deep.equal({ category: "treasury" });
+  });
+
+  it("Should list external and public functions only", function () {
+    expect(vault.functions.map((fn) => fn.name)).to.deep.equal(["deposit", "balanceOf", "reset"]);
+    expect(vault.constructorParameters).to.deep.equal([{ name: "initialOwner", type: "address" }]);
+  });
+
+  it("Should read function signatures and NatSpec", function () {
+    const [deposit, balanceOf, reset] = vault.functions;
+    expect(deposit.parameters.map((parameter) => parameter.type)).to.deep.equal(["externalEuint64", "bytes"]);
+    expect(deposit.natspec.notice).to.equal("Deposit an encrypted amount");
+    expect(deposit.natspec.params).to.deep.equal({ amount: "Encrypted amount", proof: "Input proof" });
+    expect(balanceOf.stateMutability).to.equal("view");
+    expect(balanceOf.returns).to.deep.equal([{ name: "balance", type: "euint64" }]);
+    expect(balanceOf.natspec.returns).to.deep.equal(["balance The encrypted balance"]);
+    expect(reset.modifiers).to.deep.equal(["onlyOwner"]);
+  });
+
+  it("Should collect reverts and emitted events from bodies", function () {
+    const deposit = vault.functions[0];
+    expect(deposit.reverts).to.deep.equal([{ kind: "message", value: "Empty proof" }]);
+    expect(deposit.emits).to.deep.equal(["Deposited"]);
+    expect(vault.modifiers[0].reverts).to.deep.equal([{ kind: "error", value: "NotOwner" }]);
+  });
+
+  it("Should collect the FHE types used", function () {
+    expect(vault.fheTypes).to.include.members(["euint64", "externalEuint64"]);
+    expect(isFheType("euint64")).to.be.true;
+    expect(isFheType("externalEbool")).to.be.true;
+    expect(isFheType("uint64")).to.be.false;
+  });
+
+  it("Should pick the contract named after the file as the main contract", function () {
+    expect(getMainContract(model)?.name).to.equal("Vault");
+    const other = parseSolidity("contract A {}\ncontract B {}\nabstract contract C {}", "contracts/Other.sol");
+    expect(getMainContract(other)?.name).to.equal("B");
+  });
+
+  it("Should join multi-line NatSpec values", function () {
+    const natspec = parseNatSpec("/**\n * @notice First line\n *   second line\n * @dev Details\n */");
+    expect(natspec.notice).to.equal("First line second line");
+    expect(natspec.dev).to.equal("Details");
+  });
+
+  it("Should report syntax errors with the file name", function () {
+    expect(() => parseSolidity("contract {", "contracts/Broken.sol"))
+      .to.throw(SolidityParseError)
+      .with.property("filePath", "contracts/Broken.sol");
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  createTemplateLoader,
+  getTemplateScopes,
+  renderTemplate,
+  renderTemplateSource,
+  TemplatingError,
+} from "../../scripts/lib/templating";
+
+/**
+ * Templating Test Suite
+ *
+ * Covers:
+ * - Variables, conditionals, loops and partials
+ * - Per-example and per-category template overrides
+ * - Errors for unknown variables, prototype members and recursive partials
+ */
+
+describe("Templating", function () {
+  let templatesDir: string;
+
+  function writeTemplate(name: string, content: string): void {
+    const file = path.join(templatesDir, name);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function render(source: string, context: Record<string, unknown>): string {
+    return renderTemplateSource(source, "inline.tpl", context, createTemplateLoader([], templatesDir));
+  }
+
+  before(function () {
+    templatesDir = fs.mkdtempSync(path.join(os.tmpdir(), "templating-"));
+    writeTemplate("partials/item.tpl", "- {{name}}\n");
+    writeTemplate("partials/loop.tpl", "{{> loop-back}}");
+    writeTemplate("partials/loop-back.tpl", "{{> loop}}");
+    writeTemplate("page.tpl", "default {{title}}\n");
+    writeTemplate("categories/treasury/page.tpl", "category {{title}}\n");
+    writeTemplate("examples/encrypted-treasury/page.tpl", "example {{title}}\n");
+  });
+
+  after(function () {
+    fs.rmSync(templatesDir, { recursive: true, force: true });
+  });
+
+  it("Should substitute variables and dotted paths", function () {
+    expect(render("{{title}} by {{author.name}}", { title: "Vault", author: { name: "Zama" } })).to.equal(
+      "Vault by Zama"
+    );
+    expect(render("{{tags}}", { tags: ["fhe", "defi"] })).to.equal("fhe, defi");
+  });
+
+  it("Should render conditionals and loops, dropping lines holding only a block tag", function () {
+    const source = ["{{#each items}}", "{{@index}}. {{this}}{{#if @last}}.{{/if}}", "{{else}}", "none", "{{/each}}", ""];
+    expect(render(source.join("\n"), { items: ["a", "b"] })).to.equal("0. a\n1. b.\n");
+    expect(render(source.join("\n"), { items: [] })).to.equal("none\n");
+    expect(render("{{#unless done}}todo{{/unless}}", { done: 0 })).to.equal("todo");
+  });
+
+  it("Should look up variables in enclosing scopes", function () {
+    const context = { project: "demo", contracts: [{ name: "A" }, { name: "B" }] };
+    expect(render("{{#each contracts}}{{project}}/{{name}} {{/each}}", context)).to.equal("demo/A demo/B ");
+  });
+
+  it("Should include partials with the current scope", function () {
+    expect(render("{{#each items}}{{> item}}{{/each}}", { items: [{ name: "x" }, { name: "y" }] })).to.equal(
+      "- x\n- y\n"
+    );
+  });
+
+  it("Should keep the line endings of the source", function () {
+    expect(render("{{#if on}}\r\nline {{value}}\r\n{{/if}}\r\n", { on: true, value: 1 })).to.equal("line 1\r\n");
+  });
+
+  it("Should prefer example overrides, then category overrides", function () {
+    const context = { title: "Treasury" };
+    const load = (scopes: string[]) => renderTemplate("page.tpl", context, createTemplateLoader(scopes, templatesDir));
+    expect(load(getTemplateScopes("encrypted-treasury", "treasury"))).to.equal("example Treasury\n");
+    expect(load(getTemplateScopes("encrypted-voting", "treasury"))).to.equal("category Treasury\n");
+    expect(load(getTemplateScopes())).to.equal("default Treasury\n");
+  });
+
+  it("Should reject unknown variables with the template line", function () {
+    expect(() => render("ok\n{{missing}}", {})).to.throw(TemplatingError, 'inline.tpl:2: unknown variable "missing"');
+  });
+
+  it("Should not resolve prototype members as variables", function () {
+    expect(() => render("{{constructor}}", {})).to.throw(TemplatingError, 'unknown variable "constructor"');
+    expect(() => render("{{toString}}", { title: "x" })).to.throw(TemplatingError, 'unknown variable "toString"');
+    expect(render("[{{contract.constructor}}]", { contract: {} })).to.equal("[]");
+  });
+
+  it("Should report unclosed and mismatched blocks", function () {
+    expect(() => render("{{#if a}}", { a: true })).to.throw(TemplatingError, "is never closed");
+    expect(() => render("{{#if a}}{{/each}}", { a: true })).to.throw(TemplatingError, 'unexpected "{{/each}}"');
+  });
+
+  it("Should report partials that include themselves", function () {
+    expect(() => render("{{> loop}}", {})).to.throw(
+      TemplatingError,
+      'partial "loop" includes itself ({{> loop}} → {{> loop-back}} → {{> loop}})'
+    );
+  });
+});
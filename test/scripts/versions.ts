@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import { parseSolidity } from "../../scripts/lib/solidity";
+import {
+  CompatibilityError,
+  FHEVM_HARDHAT_PLUGIN,
+  FHEVM_SOLIDITY,
+  getHardhatPluginRange,
+  inferSolidityRange,
+  isValidRange,
+  rangesIntersect,
+  resolveFhevmVersions,
+} from "../../scripts/lib/versions";
+
+/**
+ * FHEVM Version Compatibility Test Suite
+ *
+ * Covers:
+ * - Range validation and intersection, prereleases included
+ * - Ranges inferred from the network config contract an example inherits
+ * - Resolving the pinned versions of a project and reporting incompatibilities
+ */
+
+const TEMPLATE_PINS = { [FHEVM_SOLIDITY]: "^0.9.1", [FHEVM_HARDHAT_PLUGIN]: "0.3.0-1" };
+
+describe("FHEVM version compatibility", function () {
+  it("Should validate ranges", function () {
+    expect(isValidRange("^0.9.1")).to.be.true;
+    expect(isValidRange(">=0.8.0 <0.10.0")).to.be.true;
+    expect(isValidRange("latest")).to.be.false;
+  });
+
+  it("Should intersect ranges including prereleases", function () {
+    expect(rangesIntersect("^0.9.1", ">=0.9.0")).to.be.true;
+    expect(rangesIntersect("^0.7.0", ">=0.9.0")).to.be.false;
+    expect(rangesIntersect("^0.3.0-1", ">=0.3.0-0")).to.be.true;
+  });
+
+  it("Should infer the @fhevm/solidity range from the config contract", function () {
+    const [current] = parseSolidity("contract A is ZamaEthereumConfig {}").contracts;
+    const [legacy] = parseSolidity("contract B is SepoliaConfig {}").contracts;
+    const [plain] = parseSolidity("contract C {}").contracts;
+    expect(inferSolidityRange(current)).to.deep.equal({ range: ">=0.9.0", from: "ZamaEthereumConfig" });
+    expect(inferSolidityRange(legacy)).to.deep.equal({ range: "<0.9.0", from: "SepoliaConfig" });
+    expect(inferSolidityRange(plain)).to.be.undefined;
+  });
+
+  it("Should pick the hardhat plugin released with a @fhevm/solidity line", function () {
+    expect(getHardhatPluginRange("0.9.1")).to.equal("0.3.0-1");
+    expect(getHardhatPluginRange("^0.8.0")).to.equal("^0.1.0");
+    expect(getHardhatPluginRange("^0.1.0")).to.be.undefined;
+  });
+
+  it("Should keep the template pins when no version is requested", function () {
+    const versions = resolveFhevmVersions({ example: { [FHEVM_SOLIDITY]: ">=0.9.0" } }, TEMPLATE_PINS);
+    expect(versions).to.deep.equal(TEMPLATE_PINS);
+  });
+
+  it("Should pin a requested version with its hardhat plugin", function () {
+    const versions = resolveFhevmVersions({ example: { [FHEVM_SOLIDITY]: "<0.9.0" } }, TEMPLATE_PINS, "^0.8.0");
+    expect(versions).to.deep.equal({ [FHEVM_SOLIDITY]: "^0.8.0", [FHEVM_HARDHAT_PLUGIN]: "^0.1.0" });
+  });
+
+  it("Should list every example that excludes the resolved versions", function () {
+    const examples = {
+      current: { [FHEVM_SOLIDITY]: ">=0.9.0" },
+      legacy: { [FHEVM_SOLIDITY]: "<0.9.0" },
+      plugin: { [FHEVM_HARDHAT_PLUGIN]: "^0.1.0" },
+    };
+    expect(() => resolveFhevmVersions(examples, TEMPLATE_PINS))
+      .to.throw(CompatibilityError)
+      .with.property("issues")
+      .that.deep.equals([
+        `legacy requires ${FHEVM_SOLIDITY} <0.9.0, which excludes ^0.9.1`,
+        `plugin requires ${FHEVM_HARDHAT_PLUGIN} ^0.1.0, which excludes 0.3.0-1`,
+      ]);
+  });
+
+  it("Should reject invalid requested versions", function () {
+    expect(() => resolveFhevmVersions({}, TEMPLATE_PINS, "newest")).to.throw(CompatibilityError, "not a valid");
+    expect(() => resolveFhevmVersions({}, TEMPLATE_PINS, "0.1.0")).to.throw(CompatibilityError, "no known");
+  });
+});